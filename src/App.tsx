@@ -1,173 +1,356 @@
 import React from "react";
-import IntervalQuiz from "./components/IntervalQuiz";
-import MetronomeModule from "./modules/MetronomeModule";
-import ChromaticTunerModule from "./modules/ChromaticTunerModule";
 import SettingsDialog from "./components/SettingsDialog"; // reuse as a simple help modal
-import ClaveModule from "./modules/ClaveModule";
-import SolfegeTrainerModule from "./modules/SolfegeTrainerModule";
-import ToneGeneratorModule from "./modules/ToneGeneratorModule";
-import PolyrhythmModule from "./modules/PolyrhythmModule";
+import { MODULE_LIST, getModule, isModuleKey } from "./modules";
+import { ModuleDef, TILE_SIZES, TileSize } from "./modules/registry";
+import PracticeHistory from "./components/PracticeHistory";
+import LayoutManager from "./components/LayoutManager";
+import ShareSetup from "./components/ShareSetup";
+import UpdatePrompt from "./components/UpdatePrompt";
+import TransportControl from "./components/TransportControl";
+import CommandPalette from "./components/CommandPalette";
+import MicSettings from "./components/MicSettings";
+import ShortcutSettings, { ShortcutSummary } from "./components/ShortcutSettings";
+import StageControls from "./components/StageControls";
+import {
+  Schema, TileScope, arrayOf, clearScope, load, oneOf, restoreSettings, save, snapshotSettings, usePersistentState,
+} from "./utils/persist";
+import { ACTIVE_LAYOUT, LAYOUTS, Layout, makeLayoutId } from "./utils/layouts";
+import { SharedSetupResult, buildShareUrl, takeSharedSetup } from "./utils/share";
+import { toggleRhythm } from "./utils/transport";
+import { currentTileId, defineCommand, useCommand, useKeyHint, useShortcutDispatcher } from "./utils/shortcuts";
+import { useFocusTrap } from "./utils/focusTrap";
 
 
 import "./styles/index.css";
-type ModuleKey =
-  | "quiz" | "tuner" | "metro" | "clave" | "solfege" | "tone" | "poly";
-
-type ModuleDef = {
-  title: string;
-  icon: string;
-  render: () => React.ReactNode;
-};
-
-
-const MODULES: Record<ModuleKey, ModuleDef> = {
-  quiz:  { title: "Interval Quiz",   icon: "🎯", render: () => <IntervalQuiz /> },
-  tuner: { title: "Chromatic Tuner", icon: "🎚️", render: () => <ChromaticTunerModule /> },
-  metro: { title: "Metronome",       icon: "🥁", render: () => <MetronomeModule /> },
-  clave: { title: "Clave",           icon: "🪘", render: () => <ClaveModule /> },
-  solfege: { title: "Solfege Trainer", icon: "🎤", render: () => <SolfegeTrainerModule /> },
-  tone:   { title: "Tone Generator", icon: "🎛️", render: () => <ToneGeneratorModule /> },
-  poly:  { title: "Polyrhythm", icon: "⚛️", render: () => <PolyrhythmModule /> },
-};
 
+const SIZE_LABEL: Record<TileSize, string> = { compact: "Compact", normal: "Normal", wide: "Wide" };
 
-// Singleton modules: only one tile allowed
-const SINGLETONS = new Set<ModuleKey>(["quiz", "tuner", "solfege"]);
+type Tile = { id: string; key: string; size?: TileSize }; // key: a registered module; no size = normal
 
-type Tile = { id: string; key: ModuleKey };
+/** Drop position while dragging: insert before `index`, drawn as the segment (x1,y1)-(x2,y2) in canvas coordinates. */
+type DropTarget = { index: number; x1: number; y1: number; x2: number; y2: number };
 
-const TILES_KEY = "app.tiles.v3";
-const THEME_KEY = "app.theme.v1";
 
 /* ---------- helpers ---------- */
-function isModuleKey(v: unknown): v is ModuleKey {
-  return v === "quiz" || v === "tuner" || v === "metro";
+/** Module of a tile; tiles are validated on load, so it is always registered. */
+function moduleOf(t: Tile): ModuleDef {
+  return getModule(t.key)!;
 }
 function isTile(v: any): v is Tile {
-  return v && typeof v === "object" && typeof v.id === "string" && isModuleKey(v.key);
+  return v && typeof v === "object" && typeof v.id === "string" && isModuleKey(v.key)
+    && (v.size === undefined || TILE_SIZES.includes(v.size));
 }
-function loadTiles(): Tile[] {
-  try {
-    const raw = localStorage.getItem(TILES_KEY);
-    if (!raw) return [{ id: makeId("quiz", 0), key: "quiz" }];
-    const parsed: unknown = JSON.parse(raw);
-    if (Array.isArray(parsed)) {
-      const clean = parsed.filter(isTile) as Tile[];
-      return clean.length ? clean : [{ id: makeId("quiz", 0), key: "quiz" }];
-    }
-  } catch {}
-  return [{ id: makeId("quiz", 0), key: "quiz" }];
-}
-function loadTheme(): "light" | "dark" {
-  const saved = (localStorage.getItem(THEME_KEY) as "light" | "dark" | null);
-  if (saved === "light" || saved === "dark") return saved;
-  return window.matchMedia?.("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+function distToSegment(x: number, y: number, s: DropTarget): number {
+  const dx = s.x2 - s.x1, dy = s.y2 - s.y1;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((x - s.x1) * dx + (y - s.y1) * dy) / len2));
+  return Math.hypot(x - (s.x1 + t * dx), y - (s.y1 + t * dy));
 }
 let _seed = 0;
-function makeId(k: ModuleKey, n?: number) {
+function makeId(k: string, n?: number) {
   const i = n ?? (_seed = (_seed + 1) % 1e6);
   return `${k}-${Date.now()}-${i}`;
 }
+
+const TILES: Schema<Tile[]> = {
+  key: "app.tiles.v3",
+  version: 1,
+  fallback: MODULE_LIST.filter((m) => m.starter).map((m) => ({ id: makeId(m.key, 0), key: m.key })),
+  parse: (d) => {
+    const clean = arrayOf((t) => (isTile(t) ? t : undefined))(d);
+    return clean?.length ? clean : undefined;
+  },
+};
+// null = never chosen: follow the system preference
+const THEME: Schema<"light" | "dark" | null> = {
+  key: "app.theme.v1", version: 1, fallback: null, parse: oneOf(["light", "dark"] as const),
+};
+
+const CMD_PALETTE = defineCommand({ id: "app.palette", group: "General", title: "Command palette", keys: ["mod+k"], inDialogs: true });
+const CMD_HELP = defineCommand({ id: "app.help", group: "General", title: "Help", keys: ["?"] });
+const CMD_DRAWER = defineCommand({ id: "app.drawer", group: "General", title: "Open/close module menu", keys: [] });
+const CMD_THEME = defineCommand({ id: "app.theme", group: "General", title: "Toggle dark mode", keys: [] });
+const CMD_HISTORY = defineCommand({ id: "app.history", group: "General", title: "Practice history", keys: [] });
+const CMD_SHORTCUTS = defineCommand({ id: "app.shortcuts", group: "General", title: "Customize shortcuts", keys: [] });
+const CMD_MIC = defineCommand({ id: "app.mic", group: "General", title: "Microphone settings", keys: [] });
+const CMD_STAGE = defineCommand({ id: "app.stage", group: "General", title: "Stage view of the current tile", keys: ["mod+shift+f"] });
+const CMD_TRANSPORT = defineCommand({ id: "app.transport", group: "Transport", title: "Start/stop transport (or the current rhythm tile)", keys: ["space"] });
+
+/** Tiles from a share link (#setup=…), if the URL has one. Singletons are kept once. */
+function sharedSetup(): SharedSetupResult | null {
+  const result = takeSharedSetup(getModule, (k) => makeId(k));
+  if (!result || "error" in result) return result;
+  const seen = new Set<string>();
+  return { tiles: result.tiles.filter((t) => !getModule(t.key)!.singleton || (!seen.has(t.key) && !!seen.add(t.key))) };
+}
+// read once at startup, before any tile mounts and reads its settings
+const INITIAL_SHARED = sharedSetup();
+
+function loadTiles(): Tile[] {
+  return INITIAL_SHARED && "tiles" in INITIAL_SHARED ? INITIAL_SHARED.tiles : load(TILES);
+}
+function loadTheme(): "light" | "dark" {
+  const saved = load(THEME);
+  if (saved) return saved;
+  return window.matchMedia?.("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+}
 /* ----------------------------- */
 
 export default function App() {
   const [drawerOpen, setDrawerOpen] = React.useState(false);
+  const drawerRef = React.useRef<HTMLElement | null>(null);
+  useFocusTrap(drawerRef, drawerOpen, () => setDrawerOpen(false));
   const [theme, setTheme] = React.useState<"light" | "dark">(loadTheme);
   const [tiles, setTiles] = React.useState<Tile[]>(loadTiles);
   const [helpOpen, setHelpOpen] = React.useState(false);
+  const [historyOpen, setHistoryOpen] = React.useState(false);
+  const [paletteOpen, setPaletteOpen] = React.useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = React.useState(false);
+  const [micOpen, setMicOpen] = React.useState(false);
+
+  // saved layouts; `epoch` remounts every tile after a layout restores settings
+  const [layouts, setLayouts] = usePersistentState(LAYOUTS);
+  const [activeLayout, setActiveLayout] = usePersistentState(ACTIVE_LAYOUT);
+  const [epoch, setEpoch] = React.useState(0);
+  const [shareUrl, setShareUrl] = React.useState<string | null>(null);
+  const [shareError, setShareError] = React.useState<string | null>(
+    INITIAL_SHARED && "error" in INITIAL_SHARED ? INITIAL_SHARED.error : null
+  );
+  // stage view: one tile full screen (hidden tiles keep running)
+  const [stageId, setStageId] = React.useState<string | null>(null);
+  const staged = tiles.some((t) => t.id === stageId) ? stageId : null;
 
   // pointer-drag DnD (overlay indicator)
   const canvasRef = React.useRef<HTMLElement | null>(null);
   const [draggingId, setDraggingId] = React.useState<string | null>(null);
-  const [indicatorTop, setIndicatorTop] = React.useState<number | null>(null);
+  const [indicator, setIndicator] = React.useState<DropTarget | null>(null);
   const [targetIndex, setTargetIndex] = React.useState<number | null>(null);
   const HYSTERESIS_PX = 10;
 
   React.useEffect(() => {
     document.documentElement.dataset.theme = theme;
-    try { localStorage.setItem(THEME_KEY, theme); } catch {}
+    save(THEME, theme);
   }, [theme]);
 
   React.useEffect(() => {
-    try { localStorage.setItem(TILES_KEY, JSON.stringify(tiles)); } catch {}
+    save(TILES, tiles);
   }, [tiles]);
 
-  function addModule(key: ModuleKey) {
+  function addModule(def: ModuleDef) {
     // block adding a duplicate if this is a singleton and already present
-    if (SINGLETONS.has(key) && tiles.some((t) => t.key === key)) return;
-    setTiles((prev) => [...prev, { id: makeId(key), key }]);
+    if (def.singleton && tiles.some((t) => t.key === def.key)) return;
+    setTiles((prev) => [...prev, { id: makeId(def.key), key: def.key, size: def.defaultSize }]);
+    setAnnouncement(`${def.title} added at position ${tiles.length + 1}`);
   }
   function removeTile(id: string) {
+    const idx = tiles.findIndex((t) => t.id === id);
+    const neighbour = tiles[idx + 1] ?? tiles[idx - 1];
+    if (idx >= 0) setAnnouncement(`${tileLabel(id)} removed`);
     setTiles((prev) => prev.filter((t) => t.id !== id));
+    clearScope(id);
+    // don't drop keyboard focus on the floor
+    focusAfterRender.current = neighbour ? `[data-tile-id="${neighbour.id}"] .tile-handle` : ".hamburger";
   }
+
+  /* ---------- keyboard reordering & announcements ---------- */
+  const [announcement, setAnnouncement] = React.useState("");
+  const focusAfterRender = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    const selector = focusAfterRender.current;
+    focusAfterRender.current = null;
+    if (selector) document.querySelector<HTMLElement>(selector)?.focus();
+  });
+
+  /** Move a tile to index `to` (clamped) and say where it landed. */
+  function moveTile(id: string, to: number) {
+    const from = tiles.findIndex((t) => t.id === id);
+    const dest = Math.max(0, Math.min(tiles.length - 1, to));
+    if (from < 0) return;
+    if (from === dest) {
+      setAnnouncement(`${tileLabel(id)} is already ${dest === 0 ? "first" : "last"}`);
+      return;
+    }
+    const label = tileLabel(id);
+    setTiles((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(dest, 0, moved);
+      return next;
+    });
+    focusAfterRender.current = `[data-tile-id="${id}"] .tile-handle`;
+    setAnnouncement(`${label} moved to position ${dest + 1} of ${tiles.length}`);
+  }
+  function enterStage(id: string) {
+    setDrawerOpen(false);
+    setStageId(id);
+  }
+  function exitStage() {
+    if (staged) focusAfterRender.current = `[data-tile-id="${staged}"] .tile-stage`;
+    setStageId(null);
+  }
+  function cycleSize(id: string) {
+    const tile = tiles.find((t) => t.id === id);
+    if (!tile) return;
+    const size = TILE_SIZES[(TILE_SIZES.indexOf(tile.size ?? "normal") + 1) % TILE_SIZES.length];
+    setTiles((prev) => prev.map((t) => (t.id === id ? { ...t, size } : t)));
+    setAnnouncement(`${tileLabel(id)} size: ${SIZE_LABEL[size].toLowerCase()}`);
+  }
+  function onHandleKey(id: string, e: React.KeyboardEvent) {
+    const idx = tiles.findIndex((t) => t.id === id);
+    const to =
+      e.key === "ArrowUp" || e.key === "ArrowLeft" ? idx - 1 :
+      e.key === "ArrowDown" || e.key === "ArrowRight" ? idx + 1 :
+      e.key === "Home" ? 0 :
+      e.key === "End" ? tiles.length - 1 : null;
+    if (to === null) return;
+    e.preventDefault();
+    moveTile(id, to);
+  }
+
+  /* ---------- layouts ---------- */
+  function captureLayout(id: string, name: string): Layout {
+    const prefixes = Array.from(new Set(tiles.map((t) => moduleOf(t).storagePrefix)));
+    return { id, name, tiles: tiles.map((t) => ({ ...t })), settings: snapshotSettings(prefixes, tiles.map((t) => t.id)), savedAt: Date.now() };
+  }
+  function saveLayout(name: string) {
+    // saving under an existing name overwrites it
+    const existing = layouts.find((l) => l.name.toLowerCase() === name.toLowerCase());
+    const layout = captureLayout(existing?.id ?? makeLayoutId(), name);
+    setLayouts((prev) => (existing ? prev.map((l) => (l.id === layout.id ? layout : l)) : [...prev, layout]));
+    setActiveLayout(layout.id);
+  }
+  function updateLayout(id: string) {
+    setLayouts((prev) => prev.map((l) => (l.id === id ? captureLayout(id, l.name) : l)));
+    setActiveLayout(id);
+  }
+  function deleteLayout(id: string) {
+    setLayouts((prev) => prev.filter((l) => l.id !== id));
+    if (activeLayout === id) setActiveLayout(null);
+  }
+  function loadLayout(id: string) {
+    const layout = layouts.find((l) => l.id === id);
+    if (!layout) return;
+    restoreSettings(layout.settings);
+    setTiles(layout.tiles.filter(isTile));
+    setEpoch((e) => e + 1);
+    setActiveLayout(id);
+    setDrawerOpen(false);
+  }
+
+  // a link opened in this tab while the app is running
+  React.useEffect(() => {
+    if (INITIAL_SHARED && "tiles" in INITIAL_SHARED) setActiveLayout(null);
+    const onHash = () => {
+      const result = sharedSetup();
+      if (!result) return;
+      if ("error" in result) { setShareError(result.error); return; }
+      setShareError(null);
+      setTiles(result.tiles);
+      setEpoch((e) => e + 1);
+      setActiveLayout(null);
+    };
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, [setActiveLayout]);
+
+  const hasRhythm = tiles.some((t) => moduleOf(t).rhythmic);
+
+  // Keyboard shortcuts (see utils/shortcuts); tiles register their own commands
+  useShortcutDispatcher();
+  useCommand(CMD_PALETTE, () => setPaletteOpen((v) => !v));
+  useCommand(CMD_HELP, () => setHelpOpen(true));
+  useCommand(CMD_DRAWER, () => setDrawerOpen((v) => !v));
+  useCommand(CMD_THEME, toggleTheme);
+  useCommand(CMD_HISTORY, () => setHistoryOpen(true));
+  useCommand(CMD_SHORTCUTS, () => setShortcutsOpen(true));
+  useCommand(CMD_MIC, () => setMicOpen(true));
+  useCommand(CMD_STAGE, () => {
+    if (staged) { exitStage(); return; }
+    const id = currentTileId();
+    const tile = tiles.find((t) => t.id === id) ?? tiles[0];
+    if (tile) enterStage(tile.id);
+  });
+  useCommand(CMD_TRANSPORT, () => toggleRhythm(currentTileId()));
+  const paletteHint = useKeyHint(CMD_PALETTE);
+
+  /** "Metronome", or "Metronome 2" when there are several (palette). */
+  function tileLabel(id: string): string | null {
+    const tile = tiles.find((t) => t.id === id);
+    if (!tile) return null;
+    const same = tiles.filter((t) => t.key === tile.key);
+    const title = moduleOf(tile).title;
+    return same.length > 1 ? `${title} ${same.indexOf(tile) + 1}` : title;
+  }
+
   function toggleTheme() {
     setTheme((t) => (t === "light" ? "dark" : "light"));
   }
 
-  // drag helpers
-  function measureGaps() {
+  // drag helpers: drop targets are the edges between tiles. Tiles sharing a row are
+  // separated by vertical edges, a tile alone on its row by horizontal ones.
+  function measureDropTargets(): DropTarget[] {
     const canvas = canvasRef.current!;
-    const tilesEls = Array.from(canvas.querySelectorAll<HTMLElement>(".tile"));
-    const rects = tilesEls.map((el) => el.getBoundingClientRect());
-    const canvasTopDoc = canvas.getBoundingClientRect().top + window.scrollY;
-
-    const gapsDocY: number[] = [];
-    if (rects.length === 0) {
-      gapsDocY.push(canvasTopDoc);
-    } else {
-      gapsDocY.push(rects[0].top + window.scrollY);
-      for (let i = 0; i < rects.length - 1; i++) {
-        const mid = (rects[i].bottom + rects[i + 1].top) / 2;
-        gapsDocY.push(mid + window.scrollY);
-      }
-      gapsDocY.push(rects[rects.length - 1].bottom + window.scrollY);
-    }
-    const toCanvasTop = (docY: number) => docY - canvasTopDoc;
-    return { gapsDocY, toCanvasTop };
+    const box = canvas.getBoundingClientRect();
+    const gap = parseFloat(getComputedStyle(canvas).rowGap) || 0;
+    const rects = Array.from(canvas.querySelectorAll<HTMLElement>(".tile")).map((el) => {
+      const r = el.getBoundingClientRect();
+      return { left: r.left - box.left, right: r.right - box.left, top: r.top - box.top, bottom: r.bottom - box.top };
+    });
+    return rects.flatMap((r, i) => {
+      const alone = !rects.some((o, j) => j !== i && Math.abs(o.top - r.top) < 1);
+      return alone
+        ? [
+            { index: i, x1: r.left, y1: r.top - gap / 2, x2: r.right, y2: r.top - gap / 2 },
+            { index: i + 1, x1: r.left, y1: r.bottom + gap / 2, x2: r.right, y2: r.bottom + gap / 2 },
+          ]
+        : [
+            { index: i, x1: r.left - gap / 2, y1: r.top, x2: r.left - gap / 2, y2: r.bottom },
+            { index: i + 1, x1: r.right + gap / 2, y1: r.top, x2: r.right + gap / 2, y2: r.bottom },
+          ];
+    });
   }
-  function nearestGapIndex(docY: number, prevIdx: number | null, prevDocY: number | null, gaps: number[]) {
-    let bestIdx = 0, bestDist = Infinity;
-    for (let i = 0; i < gaps.length; i++) {
-      const d = Math.abs(gaps[i] - docY);
-      if (d < bestDist) { bestDist = d; bestIdx = i; }
-    }
-    if (prevIdx != null && prevDocY != null) {
-      const prevDist = Math.abs(prevDocY - docY);
-      if (bestDist > prevDist - HYSTERESIS_PX) return prevIdx;
+  function nearestTarget(x: number, y: number, prevIdx: number | null, targets: DropTarget[]): DropTarget | null {
+    let best: DropTarget | null = null, bestDist = Infinity;
+    let prev: DropTarget | null = null, prevDist = Infinity;
+    for (const t of targets) {
+      const d = distToSegment(x, y, t);
+      if (d < bestDist) { bestDist = d; best = t; }
+      if (t.index === prevIdx && d < prevDist) { prevDist = d; prev = t; }
     }
-    return bestIdx;
+    // stay on the current target unless another one is clearly closer
+    if (prev && best && best.index !== prev.index && bestDist > prevDist - HYSTERESIS_PX) return prev;
+    return best;
+  }
+  function pointerTarget(e: React.PointerEvent, prevIdx: number | null) {
+    const box = canvasRef.current!.getBoundingClientRect();
+    return nearestTarget(e.clientX - box.left, e.clientY - box.top, prevIdx, measureDropTargets());
   }
 
-  const dragDataRef = React.useRef<{ startId: string; lastIdx: number | null; lastDocY: number | null; } | null>(null);
+  const dragDataRef = React.useRef<{ startId: string; lastIdx: number | null } | null>(null);
 
   function startDrag(id: string, e: React.PointerEvent) {
     setDraggingId(id);
     (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
 
-    const { gapsDocY, toCanvasTop } = measureGaps();
-    const docY = e.clientY + window.scrollY;
-    const idx = nearestGapIndex(docY, null, null, gapsDocY);
-
-    setTargetIndex(idx);
-    setIndicatorTop(toCanvasTop(gapsDocY[idx]));
-    dragDataRef.current = { startId: id, lastIdx: idx, lastDocY: docY };
+    const target = pointerTarget(e, null);
+    setTargetIndex(target?.index ?? null);
+    setIndicator(target);
+    dragDataRef.current = { startId: id, lastIdx: target?.index ?? null };
 
     document.body.style.userSelect = "none";
     document.body.style.touchAction = "none";
   }
   function onDragMove(e: React.PointerEvent) {
     if (!dragDataRef.current || draggingId == null) return;
-    const { lastIdx, lastDocY } = dragDataRef.current;
-    const { gapsDocY, toCanvasTop } = measureGaps();
-    const docY = e.clientY + window.scrollY;
-    const idx = nearestGapIndex(docY, lastIdx, lastDocY, gapsDocY);
-
-    if (idx !== lastIdx) {
-      setTargetIndex(idx);
-      setIndicatorTop(toCanvasTop(gapsDocY[idx]));
-      dragDataRef.current.lastIdx = idx;
+    const target = pointerTarget(e, dragDataRef.current.lastIdx);
+    if (!target) return;
+    // the same index can sit on two edges (end of a row / start of the next)
+    setIndicator((prev) => (prev && prev.x1 === target.x1 && prev.y1 === target.y1 ? prev : target));
+    if (target.index !== dragDataRef.current.lastIdx) {
+      setTargetIndex(target.index);
+      dragDataRef.current.lastIdx = target.index;
     }
-    dragDataRef.current.lastDocY = docY;
   }
   function endDrag() {
     if (!dragDataRef.current || draggingId == null || targetIndex == null) {
@@ -176,6 +359,9 @@ export default function App() {
     }
     const fromId = dragDataRef.current.startId;
     const toIdxRaw = targetIndex;
+    const fromIdx = tiles.findIndex((t) => t.id === fromId);
+    const landed = Math.max(0, Math.min(tiles.length - 1, fromIdx < toIdxRaw ? toIdxRaw - 1 : toIdxRaw));
+    if (fromIdx >= 0 && landed !== fromIdx) setAnnouncement(`${tileLabel(fromId)} moved to position ${landed + 1} of ${tiles.length}`);
 
     setTiles((prev) => {
       const fromIdx = prev.findIndex((t) => t.id === fromId);
@@ -193,7 +379,7 @@ export default function App() {
   }
   function cleanupDrag() {
     setDraggingId(null);
-    setIndicatorTop(null);
+    setIndicator(null);
     setTargetIndex(null);
     dragDataRef.current = null;
     document.body.style.userSelect = "";
@@ -201,39 +387,48 @@ export default function App() {
   }
 
   return (
-    <div className={`app ${drawerOpen ? "drawer-open" : ""}`}>
+    <div className={`app ${drawerOpen ? "drawer-open" : ""} ${staged ? "staging" : ""}`}>
       {/* Top bar */}
       <header className="topbar">
         <button
           className={`hamburger ${drawerOpen ? "open" : ""}`}
           aria-label="Open modules"
+          aria-expanded={drawerOpen}
+          aria-controls="module-drawer"
           onClick={() => setDrawerOpen((v) => !v)}
           title="Modules"
         >
           <span /><span /><span />
         </button>
         <div className="brand">Modules</div>
-        <div style={{ width: 40 }} />
+        {hasRhythm ? <TransportControl /> : <div style={{ width: 40 }} />}
       </header>
 
       {/* Drawer */}
-      <aside className={`drawer ${drawerOpen ? "open" : ""}`}>
+      <aside
+        id="module-drawer"
+        ref={drawerRef}
+        className={`drawer ${drawerOpen ? "open" : ""}`}
+        role="dialog"
+        aria-modal={drawerOpen || undefined}
+        aria-labelledby="drawer-title"
+        tabIndex={-1}
+        inert={!drawerOpen}
+      >
         <div className="drawer-header">
-          <div className="drawer-title">Add to view</div>
-          <button className="icon-btn" aria-label="Close" onClick={() => setDrawerOpen(false)} title="Close">✕</button>
+          <h2 className="drawer-title" id="drawer-title">Add to view</h2>
+          <button className="icon-btn" aria-label="Close menu" onClick={() => setDrawerOpen(false)} title="Close">✕</button>
         </div>
 
         <ul className="drawer-list">
-          {(Object.keys(MODULES) as ModuleKey[]).map((k) => {
-            const def = MODULES[k];
-            const already = tiles.some((t) => t.key === k);
-            const isSingleton = SINGLETONS.has(k);
-            const disabled = isSingleton && already;
+          {MODULE_LIST.map((def) => {
+            const already = tiles.some((t) => t.key === def.key);
+            const disabled = !!def.singleton && already;
             return (
-              <li key={k}>
+              <li key={def.key}>
                 <button
                   className={`drawer-item ${disabled ? "added" : ""}`}
-                  onClick={() => !disabled && addModule(k)}
+                  onClick={() => !disabled && addModule(def)}
                   title={disabled ? "Already added" : `Add ${def.title}`}
                   disabled={disabled}
                   aria-disabled={disabled}
@@ -247,6 +442,16 @@ export default function App() {
           })}
         </ul>
 
+        <LayoutManager
+          layouts={layouts}
+          activeId={activeLayout}
+          onSave={saveLayout}
+          onLoad={loadLayout}
+          onUpdate={updateLayout}
+          onDelete={deleteLayout}
+          onShare={() => setShareUrl(buildShareUrl(tiles, getModule))}
+        />
+
         <div className="drawer-foot">
           <span className="muted">Click to add tiles</span>
           <div className="drawer-actions">
@@ -258,6 +463,22 @@ export default function App() {
             >
               ❓ Help
             </button>
+            <button
+              className="theme-btn"
+              onClick={() => setHistoryOpen(true)}
+              title="Practice history, export & import"
+              aria-label="Practice history"
+            >
+              📒 History
+            </button>
+            <button
+              className="theme-btn"
+              onClick={() => setMicOpen(true)}
+              title="Microphone input, filters and calibration"
+              aria-label="Microphone settings"
+            >
+              🎙️ Mic
+            </button>
             <button
               className="theme-btn"
               onClick={toggleTheme}
@@ -271,13 +492,21 @@ export default function App() {
       </aside>
 
       {/* Backdrop */}
-      {drawerOpen && <div className="drawer-backdrop" onClick={() => setDrawerOpen(false)} />}
+      {drawerOpen && <div className="drawer-backdrop" onClick={() => setDrawerOpen(false)} aria-hidden />}
 
       {/* Main canvas with tiles stacked */}
       <main className="canvas" ref={canvasRef}>
         {/* Absolute overlay indicator */}
-        {indicatorTop != null && (
-          <div className="drop-indicator-overlay" style={{ top: `${indicatorTop}px` }} aria-hidden />
+        {indicator && (
+          <div
+            className={`drop-indicator-overlay ${indicator.x1 === indicator.x2 ? "vertical" : ""}`}
+            style={
+              indicator.x1 === indicator.x2
+                ? { left: indicator.x1 - 5, top: indicator.y1, height: indicator.y2 - indicator.y1 }
+                : { left: indicator.x1, top: indicator.y1 - 5, width: indicator.x2 - indicator.x1 }
+            }
+            aria-hidden
+          />
         )}
 
         {tiles.length === 0 ? (
@@ -285,47 +514,123 @@ export default function App() {
             <p className="muted">No modules yet. Open the menu and add some 👇</p>
           </div>
         ) : (
-          tiles.map((t) => {
-            const Def = MODULES[t.key];
+          tiles.map((t, index) => {
+            const Def = moduleOf(t);
             const isDragging = draggingId === t.id;
+            const label = tileLabel(t.id) ?? Def.title;
+            const size = t.size ?? "normal";
             return (
-              <section className={`tile ${isDragging ? "dragging" : ""}`} key={t.id}>
+              <section
+                className={`tile size-${size} ${isDragging ? "dragging" : ""} ${t.id === staged ? "stage" : ""}`}
+                key={`${epoch}:${t.id}`}
+                data-tile-id={t.id}
+                aria-label={label}
+              >
                 <div className="tile-bar">
                   <div className="tile-title">
-                    <span className="tile-icon" aria-hidden>{MODULES[t.key].icon}</span>
-                    {MODULES[t.key].title}
+                    <span className="tile-icon" aria-hidden>{Def.icon}</span>
+                    {Def.title}
                   </div>
                   <div className="tile-controls">
-                    <button
-                      className="tile-close"
-                      aria-label={`Remove ${Def.title}`}
-                      title={`Remove ${Def.title}`}
-                      onClick={() => removeTile(t.id)}
-                    >
-                      ✕
-                    </button>
-                    <div
-                      className="tile-handle"
-                      title="Drag to reorder"
-                      aria-label="Drag to reorder"
-                      onPointerDown={(e) => startDrag(t.id, e)}
-                      onPointerMove={onDragMove}
-                      onPointerUp={endDrag}
-                      onPointerCancel={cleanupDrag}
-                    >
-                      <span className="grip" /><span className="grip" /><span className="grip" />
-                    </div>
+                    {t.id === staged ? (
+                      <StageControls label={label} onExit={exitStage} />
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          className="tile-stage"
+                          aria-label={`Show ${label} in stage view`}
+                          title="Stage view: full screen, large display"
+                          onClick={() => enterStage(t.id)}
+                        >
+                          ⛶
+                        </button>
+                        <button
+                          type="button"
+                          className="tile-size"
+                          aria-label={`Size of ${label}: ${SIZE_LABEL[size].toLowerCase()}. Change size`}
+                          title={`Size: ${SIZE_LABEL[size]} (click to change)`}
+                          onClick={() => cycleSize(t.id)}
+                        >
+                          <span className={`size-glyph ${size}`} aria-hidden />
+                        </button>
+                        <button
+                          className="tile-close"
+                          aria-label={`Remove ${label}`}
+                          title={`Remove ${Def.title}`}
+                          onClick={() => removeTile(t.id)}
+                        >
+                          ✕
+                        </button>
+                        <button
+                          type="button"
+                          className="tile-handle"
+                          title="Drag, or use the arrow keys, to reorder"
+                          aria-label={`Move ${label}, position ${index + 1} of ${tiles.length}`}
+                          aria-describedby="tile-move-help"
+                          aria-keyshortcuts="ArrowUp ArrowDown Home End"
+                          onKeyDown={(e) => onHandleKey(t.id, e)}
+                          onPointerDown={(e) => startDrag(t.id, e)}
+                          onPointerMove={onDragMove}
+                          onPointerUp={endDrag}
+                          onPointerCancel={cleanupDrag}
+                        >
+                          <span className="grip" /><span className="grip" /><span className="grip" />
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
 
                 {/* Render module content; internal headers hidden via CSS */}
-                {Def.render()}
+                <TileScope.Provider value={t.id}><Def.component /></TileScope.Provider>
               </section>
             );
           })
         )}
       </main>
 
+      {/* Screen reader announcements (tile moves, adds, removals) */}
+      <p id="tile-move-help" className="sr-only">
+        Up and down arrow keys move the tile; Home and End move it to the top or bottom.
+      </p>
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+
+      {/* Practice history modal */}
+      <SettingsDialog title="Practice History" open={historyOpen} onClose={() => setHistoryOpen(false)}>
+        <PracticeHistory
+          titles={Object.fromEntries(MODULE_LIST.map((m) => [m.key, m.title]))}
+        />
+      </SettingsDialog>
+
+      <UpdatePrompt />
+
+      {/* A setup link that could not be opened */}
+      {shareError && (
+        <div className="app-toast" role="alert" style={{ bottom: 72 }}>
+          <span>{shareError}</span>
+          <button type="button" className="button small" onClick={() => setShareError(null)}>OK</button>
+        </div>
+      )}
+
+      {/* Share link modal */}
+      <SettingsDialog title="Share Setup" open={shareUrl !== null} onClose={() => setShareUrl(null)}>
+        {shareUrl && <ShareSetup url={shareUrl} />}
+      </SettingsDialog>
+
+      {/* Command palette */}
+      <SettingsDialog title="Commands" open={paletteOpen} onClose={() => setPaletteOpen(false)}>
+        <CommandPalette tileLabel={tileLabel} onClose={() => setPaletteOpen(false)} exclude={[CMD_PALETTE.id]} />
+      </SettingsDialog>
+
+      <SettingsDialog title="Keyboard Shortcuts" open={shortcutsOpen} onClose={() => setShortcutsOpen(false)}>
+        <ShortcutSettings />
+      </SettingsDialog>
+
+      <SettingsDialog title="Microphone" open={micOpen} onClose={() => setMicOpen(false)}>
+        <MicSettings />
+      </SettingsDialog>
+
       {/* Help modal */}
       <SettingsDialog title="About & Help" open={helpOpen} onClose={() => setHelpOpen(false)}>
         <div className="settings-grid">
@@ -343,9 +648,15 @@ export default function App() {
           <section className="settings-section">
             <h4>Managing tiles</h4>
             <ul>
-              <li>Drag the <em>grip</em> ▮▮▮ to reorder tiles.</li>
+              <li>Drag the <em>grip</em> ▮▮▮ to reorder tiles, or focus it and use the arrow keys (Home/End for top/bottom).</li>
+              <li>⛶ shows a tile full screen with large type (stage view) and keeps the screen on; Esc returns.</li>
+              <li>On wider screens tiles sit side by side; the size button next to ✕ switches a tile between compact, normal and wide.</li>
               <li>Click ✕ to remove a tile.</li>
               <li>Theme toggle (☀️/🌙) is at the bottom of the drawer.</li>
+              <li>📒 History in the drawer exports or imports your practice log (JSON/CSV).</li>
+              <li>🎙️ Mic in the drawer picks the input device and calibrates it (noise floor, gain, filters); each device keeps its own profile.</li>
+              <li>Layouts in the drawer save the current tiles and their settings under a name; click one to switch back.</li>
+              <li>🔗 Share (next to Layouts) copies a link that opens the same tiles and exercise settings on another device.</li>
             </ul>
           </section>
 
@@ -353,10 +664,29 @@ export default function App() {
 
           <section className="settings-section">
             <h4>Shortcuts</h4>
-            <ul>
-              <li><strong>Metronome:</strong> Space = start/stop, T = tap tempo</li>
-              <li><strong>Quiz:</strong> N = next, S = settings</li>
-            </ul>
+            <p className="muted" style={{ marginTop: 0 }}>
+              {paletteHint ? <><span className="kbd">{paletteHint}</span> opens the command palette. </> : null}
+              Keys go to the tile you used last; in answer fields Enter checks.
+            </p>
+            <ShortcutSummary />
+            <button
+              type="button"
+              className="button small"
+              onClick={() => { setHelpOpen(false); setShortcutsOpen(true); }}
+            >
+              Customize…
+            </button>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Offline</h4>
+            <p className="muted">
+              After the first visit everything is cached, so the app (and your saved settings) works without a
+              connection. Use your browser’s “Install” or “Add to Home Screen” to run it as an app. When a new
+              version is out you’ll be asked to reload.
+            </p>
           </section>
 
           <div className="settings-divider" />
@@ -364,8 +694,11 @@ export default function App() {
           <section className="settings-section">
             <h4>Sync</h4>
             <p className="muted">
-              Metronomes align their downbeat “1”. When you start another metronome, it begins on the next bar of
-              any running one.
+              Metronome, Clave and Polyrhythm tiles keep their own tempo until you tick <em>Follow transport</em>;
+              then they use the shared transport (▶ and tempo in the top bar), start and stop together and share
+              their downbeat “1”. A tile that starts following a stopped transport hands it its tempo; one joining
+              while it plays starts on its next bar. Space starts and stops the transport, or, while no tile follows
+              it, the rhythm tile you used last.
             </p>
           </section>
         </div>
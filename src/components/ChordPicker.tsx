@@ -0,0 +1,95 @@
+import React from "react";
+import { CHORDS, ChordQuality } from "../data/chords";
+import { Schema, oneOf, setOf, usePersistentState } from "../utils/persist";
+
+// default: the four basic triads
+const SELECTION: Schema<Set<string>> = {
+  key: "chordTrainer.selectedQualities.v1",
+  version: 1,
+  fallback: new Set(["maj", "min", "dim", "aug"]),
+  parse: setOf(oneOf(CHORDS.map((c) => c.id))),
+  serialize: (s) => Array.from(s),
+};
+
+type Group = ChordQuality["group"];
+const GROUPS: Group[] = ["triads", "sevenths", "extensions"];
+const GROUP_LABEL: Record<Group, string> = {
+  triads: "Triads",
+  sevenths: "Sevenths & sixths",
+  extensions: "Extensions",
+};
+
+type Props = {
+  selected: Set<string>;
+  onChange: (next: Set<string>) => void;
+};
+
+export function useChordSelection(): [Set<string>, (next: Set<string>) => void] {
+  return usePersistentState(SELECTION);
+}
+
+export default function ChordPicker({ selected, onChange }: Props) {
+  const groups = React.useMemo(() => {
+    const map: Record<Group, ChordQuality[]> = { triads: [], sevenths: [], extensions: [] };
+    CHORDS.forEach((c) => map[c.group].push(c));
+    return map;
+  }, []);
+
+  function toggle(id: string, checked: boolean) {
+    const next = new Set(selected);
+    checked ? next.add(id) : next.delete(id);
+    onChange(next);
+  }
+
+  function selectAll(group?: Group) {
+    const next = new Set(selected);
+    (group ? groups[group] : CHORDS).forEach((c) => next.add(c.id));
+    onChange(next);
+  }
+  function clearAll(group?: Group) {
+    const next = new Set(selected);
+    (group ? groups[group] : CHORDS).forEach((c) => next.delete(c.id));
+    onChange(next);
+  }
+
+  return (
+    <div className="picker">
+      {GROUPS.map((g) => (
+        <div key={g} className="picker-section">
+          <div className="picker-header">
+            <strong>{GROUP_LABEL[g]}</strong>
+            <div className="picker-actions">
+              <button type="button" className="button small" onClick={() => selectAll(g)}>
+                All
+              </button>
+              <button type="button" className="button small" onClick={() => clearAll(g)}>
+                None
+              </button>
+            </div>
+          </div>
+          <div className="picker-grid">
+            {groups[g].map((c) => (
+              <label key={c.id} className="check" title={c.name}>
+                <input
+                  type="checkbox"
+                  checked={selected.has(c.id)}
+                  onChange={(e) => toggle(c.id, e.target.checked)}
+                />
+                <span>{c.id}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="picker-footer">
+        <button type="button" className="button small" onClick={() => selectAll()}>
+          Select all
+        </button>
+        <button type="button" className="button small" onClick={() => clearAll()}>
+          Clear all
+        </button>
+      </div>
+    </div>
+  );
+}
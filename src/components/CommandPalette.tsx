@@ -0,0 +1,90 @@
+import React from "react";
+import { ActiveCommand, activeCommands, formatCombo, keysFor, listCommands, runCommand, useShortcutsVersion } from "../utils/shortcuts";
+
+type Props = {
+  /** Label of the tile a command belongs to ("Metronome 2"); null for app commands. */
+  tileLabel: (tileId: string) => string | null;
+  onClose: () => void;
+  /** Left out of the list (the palette's own command). */
+  exclude?: string[];
+};
+
+/** Palette body: type to filter the commands available right now, Enter runs one. */
+export default function CommandPalette({ tileLabel, onClose, exclude = [] }: Props) {
+  useShortcutsVersion();
+  const [query, setQuery] = React.useState("");
+  const [index, setIndex] = React.useState(0);
+  const listRef = React.useRef<HTMLUListElement | null>(null);
+
+  const order = listCommands().map((d) => d.id);
+  const items = activeCommands()
+    .filter((h) => !exclude.includes(h.def.id))
+    .map((h) => ({ h, label: h.tileId ? tileLabel(h.tileId) : null }))
+    .sort((a, b) =>
+      order.indexOf(a.h.def.id) - order.indexOf(b.h.def.id) || (a.label ?? "").localeCompare(b.label ?? "")
+    );
+
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const shown = items.filter(({ h, label }) => {
+    const text = `${h.def.group} ${h.def.title} ${label ?? ""}`.toLowerCase();
+    return words.every((w) => text.includes(w));
+  });
+  const current = Math.min(index, Math.max(0, shown.length - 1));
+
+  React.useEffect(() => {
+    listRef.current?.querySelector(".palette-item.active")?.scrollIntoView({ block: "nearest" });
+  }, [current]);
+
+  function run(h: ActiveCommand) {
+    onClose();
+    runCommand(h);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "ArrowDown") { e.preventDefault(); setIndex((current + 1) % Math.max(1, shown.length)); }
+    else if (e.key === "ArrowUp") { e.preventDefault(); setIndex((current - 1 + shown.length) % Math.max(1, shown.length)); }
+    else if (e.key === "Enter" && shown[current]) { e.preventDefault(); run(shown[current].h); }
+  }
+
+  return (
+    <div className="palette">
+      <input
+        className="input"
+        data-autofocus
+        placeholder="Type a command…"
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setIndex(0); }}
+        onKeyDown={onKeyDown}
+        role="combobox"
+        aria-expanded="true"
+        aria-controls="palette-list"
+        aria-activedescendant={shown[current] ? `palette-item-${current}` : undefined}
+        aria-label="Search commands"
+      />
+      {shown.length === 0 ? (
+        <p className="muted">No matching commands.</p>
+      ) : (
+        <ul className="palette-list" id="palette-list" role="listbox" ref={listRef}>
+          {shown.map(({ h, label }, i) => (
+            <li
+              key={`${h.def.id}:${h.tileId ?? ""}`}
+              id={`palette-item-${i}`}
+              role="option"
+              aria-selected={i === current}
+              className={`palette-item ${i === current ? "active" : ""}`}
+              onMouseEnter={() => setIndex(i)}
+              onClick={() => run(h)}
+            >
+              <span className="palette-title">
+                <span className="muted">{label ?? h.def.group} ›</span> {h.def.title}
+              </span>
+              <span className="palette-keys">
+                {keysFor(h.def).map((k) => <kbd key={k} className="kbd">{formatCombo(k)}</kbd>)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
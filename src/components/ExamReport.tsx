@@ -0,0 +1,49 @@
+import { ExamSession, formatClock, sessionAvgMs, sessionScore } from "../utils/examSessions";
+
+type Props = {
+  session: ExamSession;
+  onClose?: () => void;
+};
+
+function fmtSec(ms: number | null) { return ms == null ? "—" : `${(ms / 1000).toFixed(1)}s`; }
+
+/** Results screen for one finished exam session. */
+export default function ExamReport({ session, onClose }: Props) {
+  const solved = session.items.filter((i) => i.ok).length;
+  const firstTry = session.items.filter((i) => i.ok && i.answers.length === 1).length;
+
+  return (
+    <div className="exam-report">
+      <div className="controls row stats-bar">
+        <span className="badge">Score: {sessionScore(session)}%</span>
+        <span className="badge">First try: {firstTry}/{session.items.length}</span>
+        <span className="badge">Solved: {solved}</span>
+        <span className="badge">Avg: {fmtSec(sessionAvgMs(session))}</span>
+        <span className="badge">Duration: {formatClock(session.endedAt - session.startedAt)}</span>
+      </div>
+
+      <table className="stats-table" style={{ marginTop: 10 }}>
+        <thead>
+          <tr><th>#</th><th>Question</th><th>Your answer</th><th>Correct</th><th>Time</th></tr>
+        </thead>
+        <tbody>
+          {session.items.map((it, i) => (
+            <tr key={i} className={it.ok && it.answers.length === 1 ? "row-ok" : "row-err"}>
+              <td>{i + 1}</td>
+              <td><strong>{it.prompt}</strong></td>
+              <td>{it.answers.length ? it.answers.join(" → ") : <span className="muted">skipped</span>}</td>
+              <td>{it.expected}</td>
+              <td>{it.ok ? fmtSec(it.ms) : "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {onClose && (
+        <div className="row center" style={{ marginTop: 10 }}>
+          <button type="button" className="button" onClick={onClose}>Back to practice</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,35 +1,34 @@
 import React from "react";
 import { INTERVALS, Interval } from "../data/intervals";
+import { Schema, oneOf, setOf, usePersistentState } from "../utils/persist";
 
-const STORAGE_KEY = "intervalQuiz.selectedIntervals.v1";
+// default: everything selected; ids of removed intervals are dropped on load
+export const SELECTION: Schema<Set<string>> = {
+  key: "intervalQuiz.selectedIntervals.v1",
+  version: 1,
+  fallback: new Set(INTERVALS.map((i) => i.id)),
+  parse: setOf(oneOf(INTERVALS.map((i) => i.id))),
+  serialize: (s) => Array.from(s),
+};
+
+const GROUP_LABEL: Record<Interval["group"], string> = {
+  simple: "Simple",
+  extensions: "Extensions",
+  compound: "Compound",
+};
 
 type Props = {
   selected: Set<string>;
   onChange: (next: Set<string>) => void;
 };
 
-function loadDefaultSelection(): Set<string> {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) return new Set(JSON.parse(raw) as string[]);
-  } catch {}
-  // default: everything selected
-  return new Set(INTERVALS.map((i) => i.id));
-}
-
 export function useIntervalSelection(): [Set<string>, (next: Set<string>) => void] {
-  const [selected, setSelected] = React.useState<Set<string>>(loadDefaultSelection);
-  React.useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(selected)));
-    } catch {}
-  }, [selected]);
-  return [selected, setSelected];
+  return usePersistentState(SELECTION);
 }
 
 export default function IntervalPicker({ selected, onChange }: Props) {
   const groups = React.useMemo(() => {
-    const map: Record<Interval["group"], Interval[]> = { simple: [], extensions: [] };
+    const map: Record<Interval["group"], Interval[]> = { simple: [], extensions: [], compound: [] };
     INTERVALS.forEach((i) => map[i.group].push(i));
     return map;
   }, []);
@@ -40,12 +39,12 @@ export default function IntervalPicker({ selected, onChange }: Props) {
     onChange(next);
   }
 
-  function selectAll(group?: "simple" | "extensions") {
+  function selectAll(group?: Interval["group"]) {
     const next = new Set(selected);
     (group ? groups[group] : INTERVALS).forEach((i) => next.add(i.id));
     onChange(next);
   }
-  function clearAll(group?: "simple" | "extensions") {
+  function clearAll(group?: Interval["group"]) {
     const next = new Set(selected);
     (group ? groups[group] : INTERVALS).forEach((i) => next.delete(i.id));
     onChange(next);
@@ -53,10 +52,10 @@ export default function IntervalPicker({ selected, onChange }: Props) {
 
   return (
     <div className="picker">
-      {(["simple", "extensions"] as const).map((g) => (
+      {(["simple", "extensions", "compound"] as const).map((g) => (
         <div key={g} className="picker-section">
           <div className="picker-header">
-            <strong>{g === "simple" ? "Simple" : "Extensions"}</strong>
+            <strong>{GROUP_LABEL[g]}</strong>
             <div className="picker-actions">
               <button type="button" className="button small" onClick={() => selectAll(g)}>
                 All
@@ -1,6 +1,6 @@
 // src/components/IntervalQuiz.tsx
 import React from "react";
-import { INTERVALS } from "../data/intervals";
+import { INTERVALS, spanSemitones, spokenInterval } from "../data/intervals";
 import {
   ROOT_POOL,
   randomOf,
@@ -8,22 +8,48 @@ import {
   addSemitones,
   PC_TO_NAME,
   isEnharmonicallyEqual,
+  isSameSpelling,
   normalizeNoteInput,
+  sanitizeNoteInput,
+  spellInterval,
+  parseNote,
+  noteToMidi,
+  spelledOctave,
+  spokenNote,
 } from "../utils/music";
-import IntervalPicker, { useIntervalSelection } from "./IntervalPicker";
+import IntervalPicker, { SELECTION, useIntervalSelection } from "./IntervalPicker";
 import SettingsDialog from "./SettingsDialog";
 import MicAnswer from "./MicAnswer";
+import ResultBadge from "./ResultBadge";
+import ExamReport from "./ExamReport";
+import StatsBreakdown from "./StatsBreakdown";
 import { startPitchClass } from "../utils/audio";
+import { Attempt, InputMethod, QuizMode, MAX_ATTEMPTS, isAttempt } from "../utils/quizStats";
+import {
+  ExamConfig, ExamItem, ExamSession, DEFAULT_EXAM,
+  loadHistory, saveHistory, sessionScore, formatClock,
+} from "../utils/examSessions";
+import { loadSrs, saveSrs, gradeItem, itemWeight, pickWeighted, countDue, SrsState } from "../utils/srs";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, boolean, intIn, isRecord, oneOf, shape, usePersistentState } from "../utils/persist";
+import { ShareFields } from "../utils/share";
+import { defineCommand, useCommand, useKeyHint } from "../utils/shortcuts";
+import { defineModule } from "../modules/registry";
 
 type Direction = "up" | "down";
 type DirectionSetting = "up" | "down" | "both";
+type EarStyle = "melodic" | "harmonic" | "mixed";
 
 type Question = {
   root: string;
   intervalId: string;
   semitones: number;
   answerPc: number;
+  spelled: string;   // answer with correct letter spelling (falls back to PC_TO_NAME)
   dir: Direction;
+  harmonic: boolean; // ear mode: both notes at once
+  rootOct: number | null;    // octave-aware mode: root register (e.g. C4)
+  answerMidi: number | null; // octave-aware mode: exact answer note
 };
 
 function resolveDir(setting: DirectionSetting): Direction {
@@ -31,46 +57,173 @@ function resolveDir(setting: DirectionSetting): Direction {
   return setting;
 }
 
-function makeQuestion(allowedIds: Set<string>, dirSetting: DirectionSetting): Question {
-  const pool = INTERVALS.filter((i) => allowedIds.has(i.id));
-  const interval = randomOf(pool);
-  const root = randomOf(ROOT_POOL);
+/** Scheduler key for one (root, interval, direction) item. Ear items are tracked separately. */
+function itemKey(root: string, intervalId: string, dir: Direction, mode: QuizMode = "theory") {
+  const key = `${root}|${intervalId}|${dir}`;
+  return mode === "ear" ? `ear|${key}` : key;
+}
+
+function dirsFor(setting: DirectionSetting): Direction[] {
+  return setting === "both" ? ["up", "down"] : [setting];
+}
+
+function buildQuestion(root: string, interval: (typeof INTERVALS)[number], dir: Direction): Question {
   const rootPc = toPitchClass(root)!;
-  const dir = resolveDir(dirSetting);
   const delta = dir === "up" ? interval.semitones : -interval.semitones;
   const answerPc = addSemitones(rootPc, delta);
-  return { root, intervalId: interval.id, semitones: interval.semitones, answerPc, dir };
+  const spelled = spellInterval(root, interval.number, interval.semitones, dir) ?? PC_TO_NAME[answerPc];
+  return {
+    root, intervalId: interval.id, semitones: interval.semitones, answerPc, spelled, dir,
+    harmonic: false, rootOct: null, answerMidi: null,
+  };
+}
+
+/** Pin a question to a register: the root gets an octave and the answer its real (compound) MIDI note. */
+function placeInRegister(q: Question, rootOct: number): Question {
+  const interval = INTERVALS.find((i) => i.id === q.intervalId)!;
+  const rootMidi = noteToMidi(q.root, rootOct)!;
+  const answerMidi = rootMidi + (q.dir === "up" ? 1 : -1) * spanSemitones(interval);
+  return { ...q, rootOct, answerMidi };
+}
+
+/** Short question text for exam reports. */
+function promptLabel(q: Question, mode: QuizMode): string {
+  const arrow = q.dir === "down" ? "↓" : "↑";
+  if (mode === "ear") return `${q.root} ? ${q.harmonic ? "harmonic" : arrow}`;
+  return `${q.root}${q.rootOct ?? ""} ${q.intervalId} ${arrow}`;
+}
+
+/** A running exam: items are appended as questions are shown. */
+type ExamRun = {
+  startedAt: number;
+  config: ExamConfig;
+  mode: QuizMode;
+  items: ExamItem[];
+  itemStartedAt: number;
+};
+
+/** Expected answer as shown to the user ("E#", or "E#4" in octave-aware mode). */
+function answerLabel(q: Question): string {
+  return q.answerMidi != null ? `${q.spelled}${spelledOctave(q.spelled, q.answerMidi)}` : q.spelled;
+}
+
+/** Uniform pick, or weighted toward weak/overdue items when a scheduler state is given. */
+function makeQuestion(
+  allowedIds: Set<string>,
+  dirSetting: DirectionSetting,
+  srs: SrsState | null,
+  mode: QuizMode
+): Question {
+  const pool = INTERVALS.filter((i) => allowedIds.has(i.id));
+  if (!srs) return buildQuestion(randomOf(ROOT_POOL), randomOf(pool), resolveDir(dirSetting));
+
+  const now = Date.now();
+  const candidates = pool.flatMap((interval) =>
+    ROOT_POOL.flatMap((root) => dirsFor(dirSetting).map((dir) => ({ root, interval, dir })))
+  );
+  const c = pickWeighted(candidates, (x) => itemWeight(srs[itemKey(x.root, x.interval.id, x.dir, mode)], now));
+  return buildQuestion(c.root, c.interval, c.dir);
 }
 
 const AUTO_NEXT_MS = 200;
 
+// ear mode playback timing
+const EAR_NOTE_MS = 650;
+const EAR_GAP_MS = 80;
+const EAR_HARMONIC_MS = 1300;
+
+/**
+ * Play a question's two notes through startPitchClass (melodic in its direction,
+ * or harmonic). Extensions sound an octave higher so e.g. 9 and M2 differ.
+ * Returns a stop() that cancels pending notes.
+ */
+function playEarQuestion(q: Question, octave: number, wave: OscillatorType): () => void {
+  const interval = INTERVALS.find((i) => i.id === q.intervalId)!;
+  const rootMidi = (octave + 1) * 12 + toPitchClass(q.root)!;
+  const otherMidi = rootMidi + (q.dir === "up" ? 1 : -1) * spanSemitones(interval);
+  const startMidi = (m: number) => startPitchClass(((m % 12) + 12) % 12, Math.floor(m / 12) - 1, wave, -9);
+
+  const stops: Array<() => void> = [];
+  const timers: number[] = [];
+  const later = (ms: number, fn: () => void) => { timers.push(window.setTimeout(fn, ms)); };
+
+  if (q.harmonic) {
+    stops.push(startMidi(rootMidi), startMidi(otherMidi));
+    later(EAR_HARMONIC_MS, () => stops.forEach((s) => s()));
+  } else {
+    stops.push(startMidi(rootMidi));
+    later(EAR_NOTE_MS, () => stops[0]());
+    later(EAR_NOTE_MS + EAR_GAP_MS, () => {
+      stops.push(startMidi(otherMidi));
+      later(EAR_NOTE_MS, () => stops[1]?.());
+    });
+  }
+
+  return () => {
+    timers.forEach((t) => clearTimeout(t));
+    stops.forEach((s) => { try { s(); } catch {} });
+  };
+}
+
 type Stats = {
   correct: number; total: number; streak: number; best: number;
   totalTimeMs: number; lastTimeMs: number;
+  attempts: Attempt[]; // every graded try, newest last (bounded)
 };
 
-const STATS_STORAGE_KEY = "intervalQuizStatsV6";
-function loadStats(): Stats | null {
-  try { const raw = localStorage.getItem(STATS_STORAGE_KEY); return raw ? JSON.parse(raw) as Stats : null; } catch { return null; }
-}
-function saveStats(s: Stats) { try { localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(s)); } catch {} }
-function msToSec(ms: number) { return (ms / 1000).toFixed(1); }
+const EMPTY_STATS: Stats = { correct: 0, total: 0, streak: 0, best: 0, totalTimeMs: 0, lastTimeMs: 0, attempts: [] };
 
-// sanitize input to 1 note + optional accidental
-function sanitizeNoteInput(raw: string): string {
-  if (!raw) return "";
-  let s = raw.replace(/\s+/g, "").replace(/♯/g, "#").replace(/♭/g, "b");
-  const m = s.match(/[A-Ga-g]/);
-  if (!m) return "";
-  const note = m[0].toUpperCase();
-  const rest = s.slice(m.index! + 1);
-  const accMatch = rest.match(/[#bB]/);
-  if (accMatch) {
-    const acc = accMatch[0] === "B" ? "b" : accMatch[0];
-    return (note + acc).slice(0, 2);
-  }
-  return note;
-}
+const SRS_STORAGE_KEY = "intervalQuiz.srs.v1";
+
+const count = intIn(0, Number.MAX_SAFE_INTEGER);
+const STATS: Schema<Stats> = {
+  key: "intervalQuiz.stats",
+  version: 1,
+  kind: "data",
+  legacyKeys: ["intervalQuizStatsV6"],
+  fallback: EMPTY_STATS,
+  // V6 payloads have no attempt log
+  migrations: { 0: (d) => (isRecord(d) && !Array.isArray(d.attempts) ? { ...d, attempts: [] } : d) },
+  parse: shape<Stats>({
+    correct: count, total: count, streak: count, best: count,
+    totalTimeMs: count, lastTimeMs: count,
+    attempts: (d) => (Array.isArray(d) ? d.filter(isAttempt).slice(-MAX_ATTEMPTS) : undefined),
+  }, EMPTY_STATS),
+};
+
+const MIC: Schema<boolean> = { key: "intervalQuiz.mic", version: 1, fallback: false, parse: boolean };
+const OCTAVE: Schema<number> = { key: "intervalQuiz.octave", version: 1, fallback: 4, parse: intIn(2, 6) };
+const WAVE: Schema<OscillatorType> = {
+  key: "intervalQuiz.wave", version: 1, fallback: "sine",
+  parse: oneOf<OscillatorType>(["sine", "triangle", "square", "sawtooth"]),
+};
+const DIRECTION: Schema<DirectionSetting> = {
+  key: "intervalQuiz.direction", version: 1, fallback: "up", parse: oneOf<DirectionSetting>(["up", "down", "both"]),
+};
+
+/** Settings carried by share links (see utils/share). */
+const SHARE_FIELDS: ShareFields = { intervals: SELECTION, direction: DIRECTION };
+
+const MODE: Schema<QuizMode> = { key: "intervalQuiz.mode", version: 1, fallback: "theory", parse: oneOf<QuizMode>(["theory", "ear"]) };
+const EAR_STYLE: Schema<EarStyle> = {
+  key: "intervalQuiz.earStyle", version: 1, fallback: "melodic", parse: oneOf<EarStyle>(["melodic", "harmonic", "mixed"]),
+};
+const STRICT: Schema<boolean> = { key: "intervalQuiz.strict", version: 1, fallback: false, parse: boolean };
+const OCTAVES: Schema<boolean> = { key: "intervalQuiz.octaves", version: 1, fallback: false, parse: boolean };
+const ADAPTIVE: Schema<boolean> = { key: "intervalQuiz.adaptive", version: 1, fallback: true, parse: boolean };
+const CMD_NEXT = defineCommand({ id: "quiz.next", group: "Interval Quiz", title: "Next question", keys: ["n"] });
+const CMD_SETTINGS = defineCommand({ id: "quiz.settings", group: "Interval Quiz", title: "Open/close settings", keys: ["s"] });
+const CMD_REPLAY = defineCommand({ id: "quiz.replay", group: "Interval Quiz", title: "Replay (ear mode)", keys: ["r"] });
+
+const EXAM_QUESTIONS = [0, 10, 20, 30, 50, 100];
+const EXAM_MINUTES = [0, 1, 2, 3, 5, 10, 15, 20];
+const EXAM: Schema<ExamConfig> = {
+  key: "intervalQuiz.exam.v1",
+  version: 1,
+  fallback: DEFAULT_EXAM,
+  parse: shape<ExamConfig>({ questions: oneOf(EXAM_QUESTIONS), minutes: oneOf(EXAM_MINUTES) }, DEFAULT_EXAM),
+};
+function msToSec(ms: number) { return (ms / 1000).toFixed(1); }
 
 export default function IntervalQuiz() {
   const [selected, setSelected] = useIntervalSelection();
@@ -80,23 +233,37 @@ export default function IntervalQuiz() {
   const [disabled, setDisabled] = React.useState(false);
   const [qStartedAt, setQStartedAt] = React.useState<number>(() => Date.now());
   const [isSettingsOpen, setIsSettingsOpen] = React.useState(false);
+  const [isStatsOpen, setIsStatsOpen] = React.useState(false);
 
   const inputRef = React.useRef<HTMLInputElement | null>(null);
 
   // mic + playback settings (persisted)
-  const [micEnabled, setMicEnabled] = React.useState<boolean>(() => (localStorage.getItem("intervalQuiz.mic") ?? "false") === "true");
-  const [playOctave, setPlayOctave] = React.useState<number>(() => Number(localStorage.getItem("intervalQuiz.octave") ?? 4));
-  const [wave, setWave] = React.useState<OscillatorType>(() => (localStorage.getItem("intervalQuiz.wave") as OscillatorType) || "sine");
-  React.useEffect(() => { localStorage.setItem("intervalQuiz.mic", String(micEnabled)); }, [micEnabled]);
-  React.useEffect(() => { localStorage.setItem("intervalQuiz.octave", String(playOctave)); }, [playOctave]);
-  React.useEffect(() => { localStorage.setItem("intervalQuiz.wave", wave); }, [wave]);
+  const [micEnabled, setMicEnabled] = usePersistentState(MIC);
+  const [playOctave, setPlayOctave] = usePersistentState(OCTAVE);
+  const [wave, setWave] = usePersistentState(WAVE);
 
   // direction (persisted)
-  const [dirSetting, setDirSetting] = React.useState<DirectionSetting>(() => {
-    const raw = localStorage.getItem("intervalQuiz.direction") as DirectionSetting | null;
-    return raw === "up" || raw === "down" || raw === "both" ? raw : "up";
-  });
-  React.useEffect(() => { localStorage.setItem("intervalQuiz.direction", dirSetting); }, [dirSetting]);
+  const [dirSetting, setDirSetting] = usePersistentState(DIRECTION);
+
+  // quiz mode: theory (name the pitch) or ear (hear it, name the interval) (persisted)
+  const [mode, setMode] = usePersistentState(MODE);
+  const [earStyle, setEarStyle] = usePersistentState(EAR_STYLE);
+  // strict spelling: answer must use the right letter (M3 above C# = E#, not F) (persisted)
+  const [strict, setStrict] = usePersistentState(STRICT);
+  // octave-aware answers: questions carry a register and answers need an octave (persisted)
+  const [octaveAware, setOctaveAware] = usePersistentState(OCTAVES);
+  const withOctave = octaveAware && mode === "theory";
+
+  const [feedback, setFeedback] = React.useState<{ status: "ok" | "err"; message: string } | null>(null);
+
+  const [wrongPicks, setWrongPicks] = React.useState<Set<string>>(new Set());
+  const earStopRef = React.useRef<null | (() => void)>(null);
+
+  // adaptive scheduling (persisted). Kept in a ref so delayed auto-next sees the latest grades.
+  const [adaptive, setAdaptive] = usePersistentState(ADAPTIVE);
+  const srsRef = React.useRef<SrsState>(loadSrs(SRS_STORAGE_KEY));
+  const gradedRef = React.useRef(false); // only the first attempt per question is graded
+  const practice = usePracticeSession("quiz");
 
   // hold/accept config
   const HOLD_MS = 500;
@@ -107,10 +274,16 @@ export default function IntervalQuiz() {
   const playStopRef = React.useRef<null | (() => void)>(null);
 
   // stats
-  const [stats, setStats] = React.useState<Stats>(() =>
-    loadStats() ?? { correct: 0, total: 0, streak: 0, best: 0, totalTimeMs: 0, lastTimeMs: 0 }
-  );
-  React.useEffect(() => { saveStats(stats); }, [stats]);
+  const [stats, setStats] = usePersistentState(STATS);
+
+  // exam sessions: config (persisted), running exam (ref, read from timers), report + history
+  const [examCfg, setExamCfg] = usePersistentState(EXAM);
+  const examRef = React.useRef<ExamRun | null>(null);
+  const [examRunning, setExamRunning] = React.useState(false);
+  const [examNow, setExamNow] = React.useState(() => Date.now());
+  const [report, setReport] = React.useState<ExamSession | null>(null);
+  const [history, setHistory] = React.useState<ExamSession[]>(loadHistory);
+  const [isExamOpen, setIsExamOpen] = React.useState(false);
 
   function focusInputSoon() {
     window.setTimeout(() => inputRef.current?.focus(), 0);
@@ -120,7 +293,28 @@ export default function IntervalQuiz() {
     if (selected.size === 0) {
       setQuestion(null); setInput(""); setDisabled(true); return;
     }
-    const q = makeQuestion(selected, dirSetting);
+    const run = examRef.current;
+    if (run) {
+      // close the previous item (skipped if not solved), then stop at the question limit
+      const last = run.items[run.items.length - 1];
+      if (last && !last.ok) last.ms = Date.now() - run.itemStartedAt;
+      if (run.config.questions > 0 && run.items.length >= run.config.questions) { finishExam(); return; }
+    }
+
+    let q = makeQuestion(selected, dirSetting, adaptive ? srsRef.current : null, mode);
+    if (withOctave) q = placeInRegister(q, randomOf([playOctave - 1, playOctave]));
+    if (mode === "ear") q.harmonic = earStyle === "harmonic" || (earStyle === "mixed" && Math.random() < 0.5);
+    if (run) {
+      run.items.push({
+        prompt: promptLabel(q, mode),
+        expected: mode === "ear" ? q.intervalId : answerLabel(q),
+        answers: [], ok: false, ms: 0,
+      });
+      run.itemStartedAt = Date.now();
+    }
+    gradedRef.current = false;
+    setWrongPicks(new Set());
+    setFeedback(null);
     setQuestion(q);
     setQStartedAt(Date.now());
     setInput("");
@@ -130,16 +324,121 @@ export default function IntervalQuiz() {
   }
 
   React.useEffect(() => { startNewQuestion(); }, []);
-  React.useEffect(() => { startNewQuestion(); }, [selected, dirSetting]);
+  React.useEffect(() => { startNewQuestion(); }, [selected, dirSetting, adaptive, mode, earStyle, octaveAware]);
+
+  function startExam() {
+    examRef.current = { startedAt: Date.now(), config: examCfg, mode, items: [], itemStartedAt: Date.now() };
+    setExamRunning(true);
+    setExamNow(Date.now());
+    setReport(null);
+    setIsExamOpen(false);
+    startNewQuestion();
+  }
+
+  /** `cutOff`: ended by the time limit or End exam, so the question on screen may be unanswered. */
+  function finishExam(cutOff = false) {
+    const run = examRef.current;
+    if (!run) return;
+    examRef.current = null;
+    setExamRunning(false);
+    // skipped questions count; only an unanswered question cut off by the end of the exam does not
+    const items = [...run.items];
+    const current = items[items.length - 1];
+    if (cutOff && current && !current.ok && current.answers.length === 0) items.pop();
+    const last = items[items.length - 1];
+    if (last && !last.ok && last.ms === 0) last.ms = Date.now() - run.itemStartedAt;
+    const session: ExamSession = {
+      id: `exam-${run.startedAt}`,
+      startedAt: run.startedAt,
+      endedAt: Date.now(),
+      config: run.config,
+      mode: run.mode,
+      items,
+    };
+    setHistory((prev) => {
+      const next = [...prev, session];
+      saveHistory(next);
+      return next;
+    });
+    stopEar();
+    setQuestion(null);
+    setReport(session);
+  }
+
+  function closeReport() {
+    setReport(null);
+    startNewQuestion();
+  }
+
+  // exam clock: tick the countdown and end the session on time
+  React.useEffect(() => {
+    if (!examRunning) return;
+    const id = window.setInterval(() => {
+      const now = Date.now();
+      setExamNow(now);
+      const run = examRef.current;
+      if (run && run.config.minutes > 0 && now - run.startedAt >= run.config.minutes * 60_000) finishExam(true);
+    }, 250);
+    return () => clearInterval(id);
+  }, [examRunning]);
+
+  // ear mode: play each new question automatically; silence on leave
+  function stopEar() {
+    try { earStopRef.current?.(); } catch {}
+    earStopRef.current = null;
+  }
+  function playEar() {
+    if (!question || mode !== "ear") return;
+    stopEar();
+    try { earStopRef.current = playEarQuestion(question, playOctave, wave); } catch {}
+  }
+  React.useEffect(() => {
+    if (mode === "ear") playEar();
+    return stopEar;
+  }, [question, mode]);
+
+  function gradeQuestion(ok: boolean, elapsed: number) {
+    if (!question || gradedRef.current) return;
+    gradedRef.current = true;
+    const id = itemKey(question.root, question.intervalId, question.dir, mode);
+    srsRef.current = gradeItem(srsRef.current, id, ok, elapsed);
+    saveSrs(SRS_STORAGE_KEY, srsRef.current);
+  }
+
+  function resetSchedule() {
+    srsRef.current = {};
+    saveSrs(SRS_STORAGE_KEY, srsRef.current);
+    startNewQuestion();
+  }
 
-  function registerAttempt(ok: boolean, elapsed: number) {
+  function registerAttempt(ok: boolean, elapsed: number, answer: string, input: InputMethod, expected?: string) {
+    gradeQuestion(ok, elapsed);
+    practice.count(ok, mode);
+    const item = examRef.current?.items[examRef.current.items.length - 1];
+    if (item && !item.ok) {
+      item.answers.push(answer || "?");
+      if (ok) { item.ok = true; item.ms = elapsed; }
+    }
+    const attempt: Attempt | null = question && {
+      at: Date.now(),
+      intervalId: question.intervalId,
+      root: question.root,
+      dir: question.dir,
+      answer,
+      expected: expected ?? answerLabel(question),
+      ok,
+      ms: elapsed,
+      input,
+      mode,
+    };
     setStats((s) => {
       const total = s.total + 1;
       const correct = s.correct + (ok ? 1 : 0);
       const streak = ok ? s.streak + 1 : 0;
       const best = Math.max(s.best, streak);
       const totalTimeMs = ok ? s.totalTimeMs + elapsed : s.totalTimeMs;
-      return { correct, total, streak, best, totalTimeMs, lastTimeMs: elapsed };
+      const attempts = attempt ? [...s.attempts, attempt].slice(-MAX_ATTEMPTS) : s.attempts;
+      return { correct, total, streak, best, totalTimeMs, lastTimeMs: elapsed, attempts };
     });
 
     if (ok) {
@@ -161,42 +460,77 @@ export default function IntervalQuiz() {
   function submit() {
     if (disabled || !question) return;
     const elapsed = Date.now() - qStartedAt;
-    const normalized = normalizeNoteInput(input);
-    if (!normalized) { registerAttempt(false, elapsed); return; }
-    const expectedName = PC_TO_NAME[question.answerPc];
-    const ok = isEnharmonicallyEqual(normalized, expectedName);
-    registerAttempt(ok, elapsed);
-  }
+    const parsed = withOctave ? parseNote(input) : null;
+    const normalized = withOctave ? parsed?.name ?? "" : normalizeNoteInput(input);
+    if (!normalized) { registerAttempt(false, elapsed, input, "typed"); return; }
+    if (withOctave && parsed?.octave == null) {
+      // not graded: just ask for the missing register
+      setFeedback({ status: "err", message: "Include the octave, e.g. E5" });
+      return;
+    }
 
-  function next() { startNewQuestion(); }
+    const rightPitch = isEnharmonicallyEqual(normalized, question.spelled);
+    const rightSpelling = isSameSpelling(normalized, question.spelled);
+    const rightOctave = question.answerMidi == null || noteToMidi(normalized, parsed!.octave!) === question.answerMidi;
+    const ok = (strict ? rightSpelling : rightPitch) && rightOctave;
+    const given = withOctave ? `${normalized}${parsed!.octave}` : normalized;
+    const way = question.dir === "down" ? "below" : "above";
+    const rootLabel = `${question.root}${question.rootOct ?? ""}`;
 
-  // Global hotkeys (N/S) when not typing in fields
-  React.useEffect(() => {
-    function isTypingTarget(el: EventTarget | null) {
-      if (!(el instanceof HTMLElement)) return false;
-      const tag = el.tagName.toLowerCase();
-      return tag === "input" || tag === "textarea" || tag === "select" || el.isContentEditable;
-    }
-    function onKey(e: KeyboardEvent) {
-      if (isTypingTarget(e.target)) return;
-      const k = e.key.toLowerCase();
-      if (k === "n") next();
-      if (k === "s") setIsSettingsOpen((v) => !v);
+    if (strict && rightPitch && !rightSpelling) {
+      setFeedback({ status: "err", message: `Right pitch, wrong spelling: ${question.intervalId} ${way} ${rootLabel} is ${answerLabel(question)}` });
+    } else if (rightPitch && !rightOctave) {
+      setFeedback({ status: "err", message: `Right note, wrong octave: ${question.intervalId} ${way} ${rootLabel} lands in octave ${spelledOctave(question.spelled, question.answerMidi!)}` });
+    } else {
+      setFeedback(null);
     }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [qStartedAt]);
+    registerAttempt(ok, elapsed, given, "typed");
+  }
+
+  function pickInterval(id: string) {
+    if (disabled || !question || wrongPicks.has(id)) return;
+    const elapsed = Date.now() - qStartedAt;
+    const ok = id === question.intervalId;
+    if (!ok) setWrongPicks((prev) => new Set(prev).add(id));
+    registerAttempt(ok, elapsed, id, "choice", question.intervalId);
+  }
+
+  function next() { setReport(null); startNewQuestion(); }
+
+  // shortcuts (also from the answer field, which opts in with data-shortcuts)
+  useCommand(CMD_NEXT, next);
+  useCommand(CMD_SETTINGS, () => setIsSettingsOpen((v) => !v));
+  useCommand(CMD_REPLAY, playEar);
+  const nextHint = useKeyHint(CMD_NEXT);
+  const replayHint = useKeyHint(CMD_REPLAY);
 
   const accuracy = stats.total === 0 ? 100 : Math.round((stats.correct / stats.total) * 100);
   const avgMs = stats.correct === 0 ? 0 : Math.round(stats.totalTimeMs / stats.correct);
   const dirArrow = question?.dir === "down" ? "↓" : "↑";
+  // what the hero says, for screen readers (the hero itself is glyphs)
+  const heroSpoken = !question ? "" : mode === "ear"
+    ? `Root ${spokenNote(question.root)}. Name the ${question.harmonic ? "harmonic" : question.dir === "down" ? "descending" : "ascending"} interval.`
+    : `Root ${spokenNote(question.root + (question.rootOct ?? ""))}, ${spokenInterval(question.intervalId)} ${question.dir}. Name the note.`;
+  const dueCount = React.useMemo(() => {
+    if (!adaptive) return 0;
+    const ids = INTERVALS.filter((i) => selected.has(i.id)).flatMap((i) =>
+      ROOT_POOL.flatMap((root) => dirsFor(dirSetting).map((dir) => itemKey(root, i.id, dir, mode)))
+    );
+    return countDue(srsRef.current, ids);
+  }, [adaptive, selected, dirSetting, mode, question]);
 
   // mic callbacks
   const handleMicHeard = React.useCallback((_heardPc: number, _ok: boolean) => { }, []);
   const handleMicCorrect = React.useCallback(() => {
     if (!question || disabled) return;
     const elapsed = Date.now() - qStartedAt;
-    registerAttempt(true, elapsed);
+    registerAttempt(true, elapsed, answerLabel(question), "mic");
+  }, [question, disabled, qStartedAt]);
+  // a wrong note held as long as a right one would count is a wrong answer
+  const handleMicMiss = React.useCallback((heardPc: number) => {
+    if (!question || disabled) return;
+    const elapsed = Date.now() - qStartedAt;
+    registerAttempt(false, elapsed, PC_TO_NAME[heardPc], "mic");
   }, [question, disabled, qStartedAt]);
 
   // hold-to-play target (suspend mic while held)
@@ -204,7 +538,10 @@ export default function IntervalQuiz() {
     if (!question || isPlaying) return;
     setIsPlaying(true);
     try {
-      playStopRef.current = startPitchClass(question.answerPc, playOctave, wave);
+      const m = question.answerMidi;
+      playStopRef.current = m != null
+        ? startPitchClass(((m % 12) + 12) % 12, Math.floor(m / 12) - 1, wave)
+        : startPitchClass(question.answerPc, playOctave, wave);
     } catch {
       setIsPlaying(false);
     }
@@ -221,6 +558,24 @@ export default function IntervalQuiz() {
     <div className="panel">
       {/* Tiny tool bar inside the panel (since external tile header hides module header) */}
       <div className="row" style={{ justifyContent: "flex-end", marginBottom: 6 }}>
+        <button
+          type="button"
+          className="icon-btn"
+          aria-label="Open exam sessions"
+          title="Exam mode"
+          onClick={() => setIsExamOpen(true)}
+        >
+          🏁
+        </button>
+        <button
+          type="button"
+          className="icon-btn"
+          aria-label="Open statistics"
+          title="Statistics"
+          onClick={() => setIsStatsOpen(true)}
+        >
+          📊
+        </button>
         <button
           type="button"
           className="icon-btn"
@@ -241,20 +596,91 @@ export default function IntervalQuiz() {
         <span className="badge">Best: {stats.best}</span>
         <span className="badge">Avg: {stats.correct ? `${msToSec(avgMs)}s` : "—"}</span>
         <span className="badge">Last: {stats.total ? `${msToSec(stats.lastTimeMs)}s` : "—"}</span>
+        {adaptive && <span className="badge" title="Items due for review (incl. new)">Due: {dueCount}</span>}
       </div>
 
+      {/* Exam progress */}
+      {examRunning && examRef.current && (
+        <div className="row center exam-bar">
+          <span className="badge">
+            Exam: Q {examRef.current.items.length}
+            {examRef.current.config.questions > 0 ? ` / ${examRef.current.config.questions}` : ""}
+          </span>
+          <span className="badge">
+            {examRef.current.config.minutes > 0
+              ? `${formatClock(examRef.current.config.minutes * 60_000 - (examNow - examRef.current.startedAt))} left`
+              : formatClock(examNow - examRef.current.startedAt)}
+          </span>
+          <button type="button" className="button small" onClick={() => finishExam(true)}>End exam</button>
+        </div>
+      )}
+
       {/* ===== HERO QUESTION ===== */}
-      {selected.size === 0 ? (
+      {report ? (
+        <ExamReport session={report} onClose={closeReport} />
+      ) : selected.size === 0 ? (
         <p className="muted" style={{ marginTop: 8 }}>
           Open <span className="kbd">Settings</span> to choose intervals to practice.
         </p>
-      ) : question && (
+      ) : question && mode === "ear" ? (
         <>
-          <div className="question-hero">
+          <p className="sr-only" aria-live="polite">{heroSpoken}</p>
+          <div className="question-hero" aria-hidden>
             <div className="hero-block">
               <div className="hero-label">Root</div>
               <div className="hero-note">{question.root}</div>
             </div>
+            <div className="hero-block">
+              <div className="hero-label">{question.harmonic ? "Harmonic" : "Melodic"}</div>
+              <div className="hero-interval">
+                <span className="hero-name">?</span>
+                {!question.harmonic && (
+                  <span
+                    className={`hero-arrow ${question.dir === "down" ? "down" : "up"}`}
+                    title={question.dir === "down" ? "Down" : "Up"}
+                    aria-hidden
+                  >
+                    {dirArrow}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="hero-sub muted">
+            Listen and name the interval{question.harmonic ? "" : question.dir === "down" ? " (played downward)" : " (played upward)"}.
+          </div>
+
+          <div className="answer-row">
+            <button type="button" className="button" onClick={playEar} title={replayHint ? `Replay (${replayHint})` : "Replay"}>↻ Replay</button>
+            <button type="button" className="button" onClick={next}>{nextHint ? `Next (${nextHint})` : "Next"}</button>
+          </div>
+
+          <div className="ear-choices">
+            {INTERVALS.filter((i) => selected.has(i.id)).map((i) => (
+              <button
+                key={i.id}
+                type="button"
+                className={`button ear-choice ${wrongPicks.has(i.id) ? "wrong" : ""}`}
+                onClick={() => pickInterval(i.id)}
+                disabled={disabled || wrongPicks.has(i.id)}
+              >
+                {i.id}
+              </button>
+            ))}
+          </div>
+
+          <p className="muted foot-tip">
+            Pick the interval you hear.{replayHint && <> Press <span className="kbd">{replayHint}</span> to replay.</>}
+          </p>
+        </>
+      ) : question && (
+        <>
+          <p className="sr-only" aria-live="polite">{heroSpoken}</p>
+          <div className="question-hero" aria-hidden>
+            <div className="hero-block">
+              <div className="hero-label">Root</div>
+              <div className="hero-note">{question.root}{question.rootOct ?? ""}</div>
+            </div>
             <div className="hero-block">
               <div className="hero-label">Interval</div>
               <div className="hero-interval">
@@ -278,28 +704,27 @@ export default function IntervalQuiz() {
             <input
               ref={inputRef}
               className="input"
-              placeholder="Type pitch (e.g., Gb)"
+              placeholder={withOctave ? "Type pitch + octave (e.g., Gb4)" : "Type pitch (e.g., Gb)"}
               value={input}
-              onChange={(e) => setInput(sanitizeNoteInput(e.target.value))}
+              onChange={(e) => setInput(sanitizeNoteInput(e.target.value, withOctave))}
               onKeyDown={(e) => {
                 const k = e.key.toLowerCase();
                 if (k === "enter") { e.preventDefault(); submit(); return; }
-                if (k === "s") { e.preventDefault(); setIsSettingsOpen(true); return; }
-                if (k === "n") { e.preventDefault(); next(); return; }
                 if (e.key.length === 1) {
-                  const tentative = sanitizeNoteInput(input + e.key);
-                  if (tentative.length > 2) e.preventDefault();
+                  const tentative = sanitizeNoteInput(input + e.key, withOctave);
+                  if (tentative.length > (withOctave ? 4 : 3)) e.preventDefault();
                 }
               }}
+              data-shortcuts={`${CMD_NEXT.id} ${CMD_REPLAY.id} ${CMD_SETTINGS.id}`}
               autoCapitalize="characters"
               autoCorrect="off"
               autoFocus
               disabled={disabled}
-              maxLength={2}
+              maxLength={withOctave ? 4 : 3}
               inputMode="text"
             />
             <button type="button" className="button" onClick={submit} disabled={disabled}>Check</button>
-            <button type="button" className="button" onClick={next}>Next (n)</button>
+            <button type="button" className="button" onClick={next}>{nextHint ? `Next (${nextHint})` : "Next"}</button>
             <button
               type="button"
               className="button"
@@ -321,6 +746,12 @@ export default function IntervalQuiz() {
             </button>
           </div>
 
+          {feedback && (
+            <div className="centered" style={{ marginTop: 4 }}>
+              <ResultBadge status={feedback.status} message={feedback.message} />
+            </div>
+          )}
+
           {/* Mic answer only (no embedded tuner).
               Show a hint to add the Chromatic Tuner tile when mic mode is on. */}
           {micEnabled && (
@@ -329,8 +760,10 @@ export default function IntervalQuiz() {
                 enabled={micEnabled && !disabled}
                 suspend={isPlaying}
                 targetPc={question.answerPc}
+                targetMidi={question.answerMidi ?? undefined}
                 onHeard={handleMicHeard}
                 onCorrect={handleMicCorrect}
+                onMiss={handleMicMiss}
                 // no onPitch -> tuner removed from quiz
                 holdMs={HOLD_MS}
                 centsTolerance={CENTS_TOL}
@@ -342,12 +775,104 @@ export default function IntervalQuiz() {
           )}
 
           <p className="muted foot-tip">
-            Follow the direction arrow. Input a note like <span className="kbd">A</span> or <span className="kbd">Gb</span>.
+            Follow the direction arrow. Input a note like <span className="kbd">A</span>, <span className="kbd">Gb</span> or <span className="kbd">F##</span>
+            {strict ? " spelled by letter distance (e.g. M3 above C# is E#)." : "."}
             Or play it on your instrument and hold in tune (±{CENTS_TOL}¢) for {HOLD_MS}ms.
           </p>
         </>
       )}
 
+      {/* Exam config + history */}
+      <SettingsDialog
+        title="Exam mode"
+        open={isExamOpen}
+        onClose={() => setIsExamOpen(false)}
+      >
+        <div className="settings-grid">
+          <section className="settings-section">
+            <h4>New session</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Questions</span>
+                <select
+                  className="select"
+                  value={examCfg.questions}
+                  onChange={(e) => setExamCfg((c) => ({ ...c, questions: Number(e.target.value) }))}
+                >
+                  {EXAM_QUESTIONS.map((n) => <option key={n} value={n}>{n === 0 ? "No limit" : n}</option>)}
+                </select>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Time limit</span>
+                <select
+                  className="select"
+                  value={examCfg.minutes}
+                  onChange={(e) => setExamCfg((c) => ({ ...c, minutes: Number(e.target.value) }))}
+                >
+                  {EXAM_MINUTES.map((n) => <option key={n} value={n}>{n === 0 ? "None" : `${n} min`}</option>)}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="button"
+                onClick={startExam}
+                disabled={selected.size === 0 || (examCfg.questions === 0 && examCfg.minutes === 0)}
+              >
+                {examRunning ? "Restart exam" : "Start exam"}
+              </button>
+            </div>
+            <p className="muted" style={{ marginTop: 6 }}>
+              Uses the current mode, intervals and direction. Ends after the question count or the time limit,
+              whichever comes first, then shows a report.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>History</h4>
+            {history.length === 0 ? (
+              <p className="muted">No sessions yet.</p>
+            ) : (
+              <table className="stats-table">
+                <thead>
+                  <tr><th>Date</th><th>Mode</th><th>Questions</th><th>Score</th><th>Duration</th><th /></tr>
+                </thead>
+                <tbody>
+                  {history.slice().reverse().map((h) => (
+                    <tr key={h.id}>
+                      <td>{new Date(h.startedAt).toLocaleString()}</td>
+                      <td style={{ textTransform: "capitalize" }}>{h.mode}</td>
+                      <td>{h.items.length}</td>
+                      <td>{sessionScore(h)}%</td>
+                      <td>{formatClock(h.endedAt - h.startedAt)}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="button small"
+                          onClick={() => { setReport(h); setIsExamOpen(false); }}
+                        >
+                          View
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </SettingsDialog>
+
+      {/* Breakdown */}
+      <SettingsDialog
+        title="Statistics"
+        open={isStatsOpen}
+        onClose={() => setIsStatsOpen(false)}
+      >
+        <StatsBreakdown attempts={stats.attempts} onReset={() => setStats(EMPTY_STATS)} />
+      </SettingsDialog>
+
       {/* Settings */}
       <SettingsDialog
         title="Settings"
@@ -355,6 +880,44 @@ export default function IntervalQuiz() {
         onClose={() => setIsSettingsOpen(false)}
       >
         <div className="settings-grid">
+          {/* Mode */}
+          <section className="settings-section">
+            <h4>Quiz mode</h4>
+            <div className="row">
+              {([["theory", "Theory (name the pitch)"], ["ear", "Ear (name the interval)"]] as [QuizMode, string][]).map(([opt, label]) => (
+                <label key={opt} className="check" style={{ gap: 8 }}>
+                  <input
+                    type="radio"
+                    name="quiz-mode"
+                    checked={mode === opt}
+                    onChange={() => setMode(opt)}
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+            {mode === "ear" && (
+              <div className="row" style={{ marginTop: 6 }}>
+                {(["melodic", "harmonic", "mixed"] as EarStyle[]).map((opt) => (
+                  <label key={opt} className="check" style={{ gap: 8 }}>
+                    <input
+                      type="radio"
+                      name="ear-style"
+                      checked={earStyle === opt}
+                      onChange={() => setEarStyle(opt)}
+                    />
+                    <span style={{ textTransform: "capitalize" }}>{opt}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="muted" style={{ marginTop: 6 }}>
+              Ear mode plays the two notes with the playback settings below; melodic direction follows the direction setting.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
           {/* Direction */}
           <section className="settings-section">
             <h4>Interval direction</h4>
@@ -375,6 +938,66 @@ export default function IntervalQuiz() {
 
           <div className="settings-divider" />
 
+          {/* Spelling */}
+          <section className="settings-section">
+            <h4>Spelling</h4>
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={strict}
+                onChange={(e) => setStrict(e.target.checked)}
+              />
+              <span>Strict enharmonic spelling (M3 above Db must be F, not E)</span>
+            </label>
+            <p className="muted" style={{ marginTop: 6 }}>
+              Double sharps and flats are accepted as <span className="kbd">##</span>/<span className="kbd">x</span> and <span className="kbd">bb</span>.
+              Mic answers always check pitch only.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
+          {/* Register */}
+          <section className="settings-section">
+            <h4>Register</h4>
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={octaveAware}
+                onChange={(e) => setOctaveAware(e.target.checked)}
+              />
+              <span>Octave-aware answers (C4 + M10 → E5; mic must hit the exact octave)</span>
+            </label>
+            <p className="muted" style={{ marginTop: 6 }}>
+              Roots are placed around the playback octave. Extensions and compound intervals keep their real size.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
+          {/* Scheduling */}
+          <section className="settings-section">
+            <h4>Question order</h4>
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={adaptive}
+                onChange={(e) => setAdaptive(e.target.checked)}
+              />
+              <span>Adaptive practice (focus on weak and overdue root/interval/direction items)</span>
+            </label>
+            <div className="row" style={{ marginTop: 6 }}>
+              <button type="button" className="button small" onClick={resetSchedule} disabled={!adaptive}>
+                Reset learning progress
+              </button>
+            </div>
+            <p className="muted" style={{ marginTop: 6 }}>
+              Misses and slow answers come back sooner; items you know well are spaced out over time.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
           {/* Answer method */}
           <section className="settings-section">
             <h4>Answer method</h4>
@@ -395,7 +1018,7 @@ export default function IntervalQuiz() {
 
           {/* Playback */}
           <section className="settings-section">
-            <h4>Playback (target note)</h4>
+            <h4>Playback (target note / ear mode)</h4>
             <div className="row">
               <label className="check" style={{ gap: 8 }}>
                 <span>Octave</span>
@@ -437,3 +1060,14 @@ export default function IntervalQuiz() {
     </div>
   );
 }
+
+export const MODULE = defineModule({
+  key: "quiz",
+  title: "Interval Quiz",
+  icon: "🎯",
+  storagePrefix: "intervalQuiz.",
+  settings: SHARE_FIELDS,
+  singleton: true,
+  starter: true,
+  component: IntervalQuiz,
+});
@@ -0,0 +1,88 @@
+import React from "react";
+import { Layout } from "../utils/layouts";
+
+type Props = {
+  layouts: Layout[];
+  activeId: string | null;
+  onSave: (name: string) => void;
+  onLoad: (id: string) => void;
+  onUpdate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onShare: () => void;
+};
+
+/** Drawer section: save the current tile stack under a name and switch between saved ones. */
+export default function LayoutManager({ layouts, activeId, onSave, onLoad, onUpdate, onDelete, onShare }: Props) {
+  const [name, setName] = React.useState("");
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName("");
+  }
+
+  return (
+    <div className="drawer-section">
+      <div className="drawer-subtitle">
+        <span>Layouts</span>
+        <button type="button" className="link-btn" onClick={onShare} title="Copy a link that opens these tiles and settings">
+          🔗 Share
+        </button>
+      </div>
+
+      {layouts.length === 0 ? (
+        <p className="muted" style={{ margin: "4px 0 8px" }}>
+          Save the current tiles and their settings to switch back to them later.
+        </p>
+      ) : (
+        <ul className="layout-list">
+          {layouts.map((l) => (
+            <li key={l.id} className={`layout-item ${l.id === activeId ? "active" : ""}`}>
+              <button
+                type="button"
+                className="layout-load"
+                onClick={() => onLoad(l.id)}
+                title={`Switch to “${l.name}” (${l.tiles.length} tile${l.tiles.length === 1 ? "" : "s"})`}
+              >
+                <span className="label">{l.name}</span>
+                <span className="muted">{l.tiles.length}</span>
+              </button>
+              <button
+                type="button"
+                className="icon-btn"
+                onClick={() => onUpdate(l.id)}
+                title="Overwrite with the current tiles"
+                aria-label={`Update ${l.name}`}
+              >
+                💾
+              </button>
+              <button
+                type="button"
+                className="icon-btn"
+                onClick={() => { if (window.confirm(`Delete layout “${l.name}”?`)) onDelete(l.id); }}
+                title="Delete layout"
+                aria-label={`Delete ${l.name}`}
+              >
+                🗑️
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="layout-save" onSubmit={submit}>
+        <input
+          className="input"
+          placeholder="Layout name"
+          value={name}
+          maxLength={40}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="New layout name"
+        />
+        <button type="submit" className="button small" disabled={!name.trim()}>Save</button>
+      </form>
+    </div>
+  );
+}
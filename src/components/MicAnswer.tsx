@@ -1,17 +1,16 @@
 import React from "react";
-import {
-  startMicAnalyser,
-  detectPitchHzYIN,
-  freqToPc,
-  freqToMidi,
-} from "../utils/audio";
+import { freqToPc, freqToMidi } from "../utils/audio";
+import { useMic, PitchEvent } from "../utils/mic";
+import { NoteHold } from "../utils/noteHold";
 
 type Props = {
   enabled: boolean;
   suspend?: boolean;         // pause mic (e.g., while playing target)
   targetPc: number;          // 0..11
+  targetMidi?: number;       // exact note (octave matters) instead of any octave of targetPc
   onHeard: (heardPc: number, ok: boolean) => void;
   onCorrect: () => void;
+  onMiss?: (heardPc: number) => void; // a wrong note held as long as a right one would count
   onPitch?: (hz: number | null) => void; // optional tuner feed
   holdMs?: number;           // default 500
   centsTolerance?: number;   // default ±25
@@ -47,6 +46,11 @@ class OneEuro {
   }
 }
 
+/** Signed cents offset to an exact MIDI note (no octave wrap). */
+function centsToMidi(midiFloat: number, targetMidi: number): number {
+  return (midiFloat - targetMidi) * 100;
+}
+
 /** Signed cents offset to a pitch-class using modular MIDI math (no ref freq). */
 function centsToPitchClass(midiFloat: number, targetPc: number): number {
   // distance in semitones from target pitch-class (wrap to [-6, +6))
@@ -59,67 +63,51 @@ export default function MicAnswer({
   enabled,
   suspend = false,
   targetPc,
+  targetMidi,
   onHeard,
   onCorrect,
+  onMiss,
   onPitch,
   holdMs = 500,
   centsTolerance = 25,
 }: Props) {
-  const analyserRef = React.useRef<AnalyserNode | null>(null);
-  const cleanupRef = React.useRef<() => void>(() => {});
-  const rafRef = React.useRef<number | null>(null);
-
   // time + hold
-  const lastTsRef = React.useRef<number>(0);
-  const heldMsRef = React.useRef<number>(0);
+  const lastTimeRef = React.useRef<number | null>(null);
+  const holdRef = React.useRef(new NoteHold(holdMs));
 
   // smoothing + gating
   const euroRef = React.useRef<OneEuro>(new OneEuro(60, 1.2, 0.01, 1.5));
   const lastPitchSeenRef = React.useRef<number>(0);
   const centsMedianRef = React.useRef<number[]>([]);
   const lastReportRef = React.useRef<number>(0);
+  const hzSmoothRef = React.useRef<number | null>(null);
+
+  // latest callbacks: a next note with the same pitch class restarts nothing here
+  const onCorrectRef = React.useRef(onCorrect);
+  const onHeardRef = React.useRef(onHeard);
+  const onMissRef = React.useRef(onMiss);
+  React.useEffect(() => { onCorrectRef.current = onCorrect; onHeardRef.current = onHeard; onMissRef.current = onMiss; });
 
   // knobs
   const REPORT_INTERVAL_MS = 60;
-  const YIN_THRESHOLD = 0.10;          // a bit more sensitive
+  const MIN_CLARITY = 0.90;            // stricter than the shared detector's 0.12 YIN threshold
   const HYSTERESIS_EXTRA_CENTS = 5;     // gentle boundary
 
+  const listening = enabled && !suspend;
   React.useEffect(() => {
-    if (!enabled || suspend) { stop(); return; }
-    start().catch(() => { onPitch?.(null); });
-    return stop;
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [enabled, suspend, targetPc]);
-
-  function stop() {
-    if (rafRef.current != null) cancelAnimationFrame(rafRef.current);
-    rafRef.current = null;
-    try { cleanupRef.current(); } catch {}
-    analyserRef.current = null;
-    heldMsRef.current = 0;
-    centsMedianRef.current = [];
-    onPitch?.(null);
-  }
-
-  async function start() {
-    const { analyser, cleanup } = await startMicAnalyser({
-      fftSize: 8192,
-      filtering: true,
-      hpHz: 45,
-      lpHz: 1200,
-      notch50: true,
-      notch60: false,
-    });
-    analyserRef.current = analyser;
-    cleanupRef.current = cleanup;
-    heldMsRef.current = 0;
-    lastTsRef.current = performance.now();
+    if (!listening) return;
+    holdRef.current = new NoteHold(holdMs);
+    lastTimeRef.current = null;
     lastReportRef.current = 0;
     lastPitchSeenRef.current = 0;
+    hzSmoothRef.current = null;
     euroRef.current = new OneEuro(60, 1.2, 0.01, 1.5);
     centsMedianRef.current = [];
-    tick();
-  }
+    return () => { onPitch?.(null); };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listening, targetPc, targetMidi, holdMs]);
+
+  useMic(listening, onPitchEvent, { onError: () => onPitch?.(null) });
 
   function median(a: number[]) {
     if (!a.length) return 0;
@@ -128,25 +116,23 @@ export default function MicAnswer({
     return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
   }
 
-  function tick() {
-    const an = analyserRef.current;
-    if (!an) return;
+  /** One event per analysis hop from the shared mic (audio-clock timed). */
+  function onPitchEvent(e: PitchEvent) {
+    const now = e.time * 1000;
+    const dt = lastTimeRef.current == null ? 0.02 : Math.min(0.15, Math.max(0.001, e.time - lastTimeRef.current)); // seconds
+    lastTimeRef.current = e.time;
 
-    const now = performance.now();
-    const dt = Math.min(150, Math.max(0.001, now - (lastTsRef.current || now))) / 1000; // seconds
-    lastTsRef.current = now;
+    let hzSmooth: number | null = hzSmoothRef.current;
 
-    // YIN pitch
-    const hzRaw = detectPitchHzYIN(an, 30, 900, YIN_THRESHOLD);
-    let hzSmooth: number | null = null;
-
-    if (hzRaw && isFinite(hzRaw)) {
+    if (e.hz != null && isFinite(e.hz) && e.clarity >= MIN_CLARITY) {
       lastPitchSeenRef.current = now;
-      hzSmooth = euroRef.current.filter(hzRaw, dt);
+      hzSmooth = euroRef.current.filter(e.hz, dt);
 
       const midiFloat = freqToMidi(hzSmooth);
       // robust cents-from-target-PC (avoids ref freq rounding quirks)
-      const centsRaw = centsToPitchClass(midiFloat, targetPc);
+      const centsRaw = targetMidi != null
+        ? centsToMidi(midiFloat, targetMidi)
+        : centsToPitchClass(midiFloat, targetPc);
 
       // short median to reject flickers (longer for bass)
       const win = centsMedianRef.current;
@@ -158,32 +144,26 @@ export default function MicAnswer({
       const inRange = Math.abs(centsFiltered) <= centsTolerance;
       const outRange = Math.abs(centsFiltered) > centsTolerance + HYSTERESIS_EXTRA_CENTS;
 
-      onHeard(freqToPc(hzSmooth), inRange);
+      const heardPc = freqToPc(hzSmooth);
+      onHeardRef.current(heardPc, inRange);
 
-      if (inRange) {
-        heldMsRef.current += dt * 1000;
-        if (heldMsRef.current >= holdMs) {
-          heldMsRef.current = 0;
-          onCorrect();
-        }
-      } else if (outRange) {
-        heldMsRef.current = 0;
-      }
+      const verdict = holdRef.current.push(heardPc, inRange, outRange, dt * 1000);
+      if (verdict === "correct") onCorrectRef.current();
+      else if (verdict === "miss") onMissRef.current?.(heardPc);
     } else {
       // silence/unstable: gentle grace before reset
       if (now - lastPitchSeenRef.current > 220) {
         hzSmooth = null;
         centsMedianRef.current = [];
-        heldMsRef.current = 0;
+        holdRef.current.reset();
       }
     }
+    hzSmoothRef.current = hzSmooth;
 
     if (onPitch && now - lastReportRef.current >= REPORT_INTERVAL_MS) {
       lastReportRef.current = now;
-      onPitch(hzSmooth ?? null);
+      onPitch(hzSmooth);
     }
-
-    rafRef.current = requestAnimationFrame(tick);
   }
 
   if (!enabled) return null;
@@ -0,0 +1,251 @@
+import React from "react";
+import {
+  Calibration,
+  MicProfile,
+  PitchEvent,
+  calibrateProfile,
+  gateFor,
+  listInputs,
+  micSettings,
+  useMic,
+  useMicSettings,
+} from "../utils/mic";
+import { DEFAULT_RMS_GATE } from "../utils/audio";
+
+const HP_CHOICES = [20, 30, 45, 60, 80, 100, 150, 200];
+const LP_CHOICES = [600, 800, 1200, 1600, 2400, 3200, 5000];
+const GAIN_CHOICES = [-12, -6, -3, 0, 3, 6, 9, 12, 18, 24, 30];
+
+type Step = "idle" | "silence" | "notePrompt" | "note" | "result";
+const STEP_SECONDS = { silence: 2, note: 3 };
+const SETTLE_SECONDS = 0.3; // skip the first events after the mic opens or the user clicks
+
+function dbfs(rms: number): string {
+  return `${Math.round(20 * Math.log10(Math.max(1e-6, rms)))} dBFS`;
+}
+
+/** Keep a calibrated value selectable even when it isn't one of the presets. */
+function withValue(choices: number[], value: number): number[] {
+  return choices.includes(value) ? choices : [...choices, value].sort((a, b) => a - b);
+}
+
+/**
+ * Microphone input settings: device picker, the selected device's filter
+ * profile and a guided calibration (silence, then one steady note) that
+ * measures the noise floor used as the level gate.
+ */
+export default function MicSettings() {
+  const { deviceId, profile } = useMicSettings();
+  const [inputs, setInputs] = React.useState<MediaDeviceInfo[]>([]);
+
+  const [step, setStep] = React.useState<Step>("idle");
+  const stepRef = React.useRef<Step>("idle");
+  const [progress, setProgress] = React.useState(0);
+  const [level, setLevel] = React.useState(0);
+  const [result, setResult] = React.useState<Calibration | null>(null);
+  const [micError, setMicError] = React.useState(false);
+  const silenceRef = React.useRef<PitchEvent[]>([]);
+  const noteRef = React.useRef<PitchEvent[]>([]);
+  const startRef = React.useRef<number | null>(null);
+
+  const idle = step === "idle";
+  React.useEffect(() => {
+    let alive = true;
+    const refresh = () => { listInputs().then((list) => { if (alive) setInputs(list); }).catch(() => {}); };
+    refresh();
+    navigator.mediaDevices?.addEventListener?.("devicechange", refresh);
+    return () => {
+      alive = false;
+      navigator.mediaDevices?.removeEventListener?.("devicechange", refresh);
+    };
+  }, [idle]); // labels become available once calibration has opened the mic
+
+  function go(next: Step) {
+    stepRef.current = next;
+    startRef.current = null;
+    setProgress(0);
+    setStep(next);
+  }
+
+  // a different device needs its own calibration
+  React.useEffect(() => { go("idle"); setResult(null); }, [deviceId]);
+
+  const measuring = step !== "idle" && step !== "result";
+  useMic(measuring, onEvent, { onError: () => { setMicError(true); go("idle"); } });
+
+  function onEvent(e: PitchEvent) {
+    setLevel(Math.min(1, e.level * 8));
+    const current = stepRef.current;
+    if (current !== "silence" && current !== "note") return;
+
+    if (startRef.current == null) startRef.current = e.time + SETTLE_SECONDS;
+    if (e.time < startRef.current) return;
+    (current === "silence" ? silenceRef : noteRef).current.push(e);
+
+    const done = (e.time - startRef.current) / STEP_SECONDS[current];
+    setProgress(Math.min(1, done));
+    if (done < 1) return;
+    if (current === "silence") {
+      go("notePrompt");
+    } else {
+      setResult(calibrateProfile(profile, silenceRef.current, noteRef.current));
+      go("result");
+    }
+  }
+
+  function startCalibration() {
+    silenceRef.current = [];
+    noteRef.current = [];
+    setResult(null);
+    setMicError(false);
+    go("silence");
+  }
+
+  function recordNote() {
+    noteRef.current = [];
+    go("note");
+  }
+
+  function update(patch: Partial<MicProfile>) {
+    micSettings.saveProfile({ ...profile, ...patch });
+  }
+
+  return (
+    <div className="settings-grid">
+      <section className="settings-section">
+        <h4>Input device</h4>
+        <label className="check" style={{ gap: 8 }}>
+          <span>Microphone</span>
+          <select
+            className="select"
+            value={deviceId}
+            onChange={(e) => micSettings.selectDevice(e.target.value)}
+          >
+            <option value="">System default</option>
+            {inputs.map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{d.label || `Input ${i + 1}`}</option>
+            ))}
+            {deviceId && !inputs.some((d) => d.deviceId === deviceId) && (
+              <option value={deviceId}>Saved device (not connected)</option>
+            )}
+          </select>
+        </label>
+        {inputs.some((d) => !d.label) && (
+          <p className="muted" style={{ marginTop: 6 }}>
+            Device names appear once the microphone has been allowed (e.g. after a calibration).
+          </p>
+        )}
+      </section>
+
+      <div className="settings-divider" />
+
+      <section className="settings-section">
+        <h4>Filters for this device</h4>
+        <div className="row" style={{ gap: 12, flexWrap: "wrap" }}>
+          <label className="check" style={{ gap: 8 }}>
+            <span>High-pass</span>
+            <select className="select" value={profile.hpHz} onChange={(e) => update({ hpHz: Number(e.target.value) })}>
+              {withValue(HP_CHOICES, profile.hpHz).map((v) => <option key={v} value={v}>{v} Hz</option>)}
+            </select>
+          </label>
+          <label className="check" style={{ gap: 8 }}>
+            <span>Low-pass</span>
+            <select className="select" value={profile.lpHz} onChange={(e) => update({ lpHz: Number(e.target.value) })}>
+              {withValue(LP_CHOICES, profile.lpHz).map((v) => <option key={v} value={v}>{v} Hz</option>)}
+            </select>
+          </label>
+          <label className="check" style={{ gap: 8 }}>
+            <span>Pre-gain</span>
+            <select className="select" value={profile.preGainDb} onChange={(e) => update({ preGainDb: Number(e.target.value) })}>
+              {withValue(GAIN_CHOICES, profile.preGainDb).map((v) => <option key={v} value={v}>{v > 0 ? `+${v}` : v} dB</option>)}
+            </select>
+          </label>
+        </div>
+        <div className="row" style={{ gap: 12, flexWrap: "wrap", marginTop: 8 }}>
+          <label className="check" style={{ gap: 8 }}>
+            <input type="checkbox" checked={profile.notch50} onChange={(e) => update({ notch50: e.target.checked })} />
+            <span>50 Hz hum notch</span>
+          </label>
+          <label className="check" style={{ gap: 8 }}>
+            <input type="checkbox" checked={profile.notch60} onChange={(e) => update({ notch60: e.target.checked })} />
+            <span>60 Hz hum notch</span>
+          </label>
+          <label className="check" style={{ gap: 8 }}>
+            <input type="checkbox" checked={profile.compressor} onChange={(e) => update({ compressor: e.target.checked })} />
+            <span>Compressor</span>
+          </label>
+        </div>
+        <p className="muted" style={{ marginTop: 6 }}>
+          {profile.noiseFloor != null
+            ? `Noise floor ${dbfs(profile.noiseFloor)}; sounds quieter than ${dbfs(gateFor(profile))} are ignored.`
+            : `Noise floor not measured; sounds quieter than ${dbfs(DEFAULT_RMS_GATE)} are ignored.`}
+        </p>
+      </section>
+
+      <div className="settings-divider" />
+
+      <section className="settings-section" aria-live="polite">
+        <h4>Calibration</h4>
+        {idle && (
+          <>
+            <p className="muted">
+              Measures the room, then one note, and sets the noise floor, gain and filters for this device.
+            </p>
+            {micError && <p className="muted">The microphone could not be opened. Check the browser's permission.</p>}
+            <div className="row" style={{ gap: 8, marginTop: 6 }}>
+              <button className="button" onClick={startCalibration}>Calibrate…</button>
+              <button className="chip-btn" onClick={() => micSettings.resetProfile()}>Reset to defaults</button>
+            </div>
+          </>
+        )}
+        {step === "silence" && <p><strong>Stay quiet</strong> while the room noise is measured…</p>}
+        {step === "notePrompt" && (
+          <>
+            <p>Now sing or play <strong>one steady note</strong> and keep it going for 3 seconds.</p>
+            <div className="row" style={{ gap: 8, marginTop: 6 }}>
+              <button className="button" onClick={recordNote} autoFocus>Record note</button>
+              <button className="chip-btn" onClick={() => go("idle")}>Cancel</button>
+            </div>
+          </>
+        )}
+        {step === "note" && <p><strong>Hold the note…</strong></p>}
+        {(step === "silence" || step === "note") && (
+          <div className="mic-meter" style={{ width: "100%", marginTop: 6 }} role="progressbar" aria-label="Calibration progress" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress * 100)}>
+            <div className="mic-level" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        )}
+        {measuring && (
+          <div className="mic-row">
+            <span className="muted">Input</span>
+            <div className="mic-meter" title="Input level">
+              <div className="mic-level" style={{ width: `${Math.round(level * 100)}%` }} />
+            </div>
+          </div>
+        )}
+        {step === "result" && result && (
+          result.ok ? (
+            <>
+              <p>
+                Heard {Math.round(result.hz)} Hz. Noise floor {dbfs(result.profile.noiseFloor ?? 0)},
+                pre-gain {result.profile.preGainDb} dB, filters {result.profile.hpHz}–{result.profile.lpHz} Hz.
+              </p>
+              <div className="row" style={{ gap: 8, marginTop: 6 }}>
+                <button className="button" onClick={() => { micSettings.saveProfile(result.profile); go("idle"); }}>Save</button>
+                <button className="chip-btn" onClick={startCalibration}>Try again</button>
+                <button className="chip-btn" onClick={() => go("idle")}>Discard</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p>{result.message}</p>
+              <div className="row" style={{ gap: 8, marginTop: 6 }}>
+                <button className="button" onClick={startCalibration}>Try again</button>
+                <button className="chip-btn" onClick={() => go("idle")}>Cancel</button>
+              </div>
+            </>
+          )
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React from "react";
+import { PracticeEntry, clearLog, exportCsv, exportJson, importLog, loadLog } from "../utils/practiceLog";
+import { formatClock } from "../utils/examSessions";
+
+type Props = {
+  titles: Record<string, string>; // module key -> display name
+};
+
+function download(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function stamp() { return new Date().toISOString().slice(0, 10); }
+
+function useLog(): PracticeEntry[] {
+  const [entries, setEntries] = React.useState<PracticeEntry[]>(loadLog);
+  React.useEffect(() => {
+    const refresh = () => setEntries(loadLog());
+    window.addEventListener("practicelog", refresh);
+    window.addEventListener("storage", refresh);
+    return () => {
+      window.removeEventListener("practicelog", refresh);
+      window.removeEventListener("storage", refresh);
+    };
+  }, []);
+  return entries;
+}
+
+/** Totals per module + export/import of the shared practice log. */
+export default function PracticeHistory({ titles }: Props) {
+  const entries = useLog();
+  const [message, setMessage] = React.useState<{ ok: boolean; text: string } | null>(null);
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  const totals = React.useMemo(() => {
+    const map = new Map<string, { sessions: number; ms: number; attempts: number; correct: number; last: number }>();
+    entries.forEach((e) => {
+      const t = map.get(e.module) ?? { sessions: 0, ms: 0, attempts: 0, correct: 0, last: 0 };
+      t.sessions++;
+      t.ms += e.durationMs;
+      t.attempts += e.attempts ?? 0;
+      t.correct += e.correct ?? 0;
+      t.last = Math.max(t.last, e.startedAt);
+      map.set(e.module, t);
+    });
+    return Array.from(map.entries()).sort((a, b) => b[1].last - a[1].last);
+  }, [entries]);
+
+  async function onImport(file: File | undefined) {
+    if (!file) return;
+    try {
+      const { added, skipped, invalid } = importLog(await file.text());
+      const extra = [skipped && `${skipped} already present`, invalid && `${invalid} invalid`].filter(Boolean).join(", ");
+      setMessage({ ok: true, text: `Imported ${added} session${added === 1 ? "" : "s"}${extra ? ` (${extra})` : ""}.` });
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : "Could not read this file." });
+    }
+    if (fileRef.current) fileRef.current.value = "";
+  }
+
+  function onClear() {
+    if (!window.confirm("Delete all practice history on this device?")) return;
+    clearLog();
+    setMessage(null);
+  }
+
+  return (
+    <div className="settings-grid">
+      <section className="settings-section">
+        <h4>Sessions</h4>
+        {totals.length === 0 ? (
+          <p className="muted">No practice recorded yet. Sessions are logged automatically as you use the tiles.</p>
+        ) : (
+          <table className="stats-table">
+            <thead>
+              <tr><th>Module</th><th>Sessions</th><th>Time</th><th>Accuracy</th><th>Last</th></tr>
+            </thead>
+            <tbody>
+              {totals.map(([key, t]) => (
+                <tr key={key}>
+                  <td><strong>{titles[key] ?? key}</strong></td>
+                  <td>{t.sessions}</td>
+                  <td>{formatClock(t.ms)}</td>
+                  <td>{t.attempts ? `${Math.round((t.correct / t.attempts) * 100)}%` : "—"}</td>
+                  <td>{new Date(t.last).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <div className="settings-divider" />
+
+      <section className="settings-section">
+        <h4>Export &amp; import</h4>
+        <p className="muted" style={{ marginTop: 0 }}>
+          Move your history to another device or hand it to a teacher. Importing merges with what is
+          already here; sessions present in both are kept once.
+        </p>
+        <div className="row" style={{ flexWrap: "wrap", gap: 8 }}>
+          <button type="button" className="button small" disabled={!entries.length}
+            onClick={() => download(`tonegenius-history-${stamp()}.json`, exportJson(entries), "application/json")}>
+            Export JSON
+          </button>
+          <button type="button" className="button small" disabled={!entries.length}
+            onClick={() => download(`tonegenius-history-${stamp()}.csv`, exportCsv(entries), "text/csv")}>
+            Export CSV
+          </button>
+          <button type="button" className="button small" onClick={() => fileRef.current?.click()}>
+            Import…
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            hidden
+            onChange={(e) => onImport(e.target.files?.[0])}
+          />
+          <button type="button" className="button small" disabled={!entries.length} onClick={onClear}>
+            Clear history
+          </button>
+        </div>
+        {message && (
+          <p style={{ marginTop: 8 }}>
+            <span className={`result ${message.ok ? "ok" : "err"}`}>{message.text}</span>
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
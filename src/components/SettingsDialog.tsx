@@ -1,6 +1,7 @@
 // src/components/SettingsDialog.tsx
 import React from "react";
 import { createPortal } from "react-dom";
+import { useFocusTrap } from "../utils/focusTrap";
 
 type Props = {
   title: string;
@@ -12,6 +13,7 @@ type Props = {
 export default function SettingsDialog({ title, open, onClose, children }: Props) {
   // keep hook order constant
   const panelRef = React.useRef<HTMLDivElement | null>(null);
+  const titleId = React.useId();
 
   React.useEffect(() => {
     const prev = document.body.style.overflow;
@@ -19,13 +21,8 @@ export default function SettingsDialog({ title, open, onClose, children }: Props
     return () => { document.body.style.overflow = prev; };
   }, [open]);
 
-  React.useEffect(() => {
-    function onKey(e: KeyboardEvent) { if (e.key === "Escape") onClose(); }
-    if (open) window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [open, onClose]);
-
-  React.useEffect(() => { if (open) panelRef.current?.focus(); }, [open]);
+  // focus moves in, Tab stays in, Escape closes, focus returns to the opener
+  useFocusTrap(panelRef, open, onClose);
 
   if (!open) return null;
 
@@ -50,7 +47,7 @@ export default function SettingsDialog({ title, open, onClose, children }: Props
     gap: 10, padding: "12px 14px", borderBottom: "1px solid var(--border, #333)",
     background: "var(--chip, rgba(255,255,255,0.04))",
   };
-  const titleStyle: React.CSSProperties = { fontWeight: 800, letterSpacing: ".2px" };
+  const titleStyle: React.CSSProperties = { margin: 0, fontSize: "inherit", fontWeight: 800, letterSpacing: ".2px" };
   const contentStyle: React.CSSProperties = {
     padding: 14, overflow: "auto", background: "var(--bg, #111)", color: "var(--text, #fff)",
   };
@@ -58,23 +55,23 @@ export default function SettingsDialog({ title, open, onClose, children }: Props
   return createPortal(
     <>
       {/* Backdrop */}
-      <div style={overlayStyle} onClick={onClose} />
+      <div style={overlayStyle} onClick={onClose} aria-hidden />
       {/* Panel */}
       <div
         role="dialog"
         aria-modal="true"
-        aria-label={title}
+        aria-labelledby={titleId}
         ref={panelRef}
         tabIndex={-1}
         onClick={(e) => e.stopPropagation()}
         style={panelStyle}
       >
         <div style={headerStyle}>
-          <div style={titleStyle}>{title}</div>
+          <h2 id={titleId} style={titleStyle}>{title}</h2>
           <button
             type="button"
             className="icon-btn"
-            aria-label="Close settings"
+            aria-label={`Close ${title}`}
             onClick={onClose}
             title="Close"
             style={{ color: "var(--text, #fff)" }}
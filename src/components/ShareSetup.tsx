@@ -0,0 +1,47 @@
+import React from "react";
+
+type Props = {
+  url: string;
+};
+
+/** Share dialog body: the setup link with a copy button. */
+export default function ShareSetup({ url }: Props) {
+  const [copied, setCopied] = React.useState(false);
+  const inputRef = React.useRef<HTMLInputElement | null>(null);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // clipboard blocked (e.g. insecure context): select the text for a manual copy
+      inputRef.current?.select();
+    }
+  }
+
+  return (
+    <div className="settings-grid">
+      <section className="settings-section">
+        <h4>Link to this setup</h4>
+        <p className="muted" style={{ marginTop: 0 }}>
+          Opens the same tiles with their tempo, meter, patterns, intervals and degrees. Stats and
+          practice history stay on this device.
+        </p>
+        <div className="row" style={{ gap: 8 }}>
+          <input
+            ref={inputRef}
+            className="input"
+            readOnly
+            value={url}
+            onFocus={(e) => e.currentTarget.select()}
+            aria-label="Setup link"
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <button type="button" className="button small" onClick={copy}>
+            {copied ? "Copied ✓" : "Copy"}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React from "react";
+import {
+  CommandDef, comboFromEvent, formatCombo, isCustomized, keysFor, listCommands, resetAllKeys, setKeys, useShortcutsVersion,
+} from "../utils/shortcuts";
+
+/** Shortcut editor: every command with its keys; rebind, clear or reset them. */
+export default function ShortcutSettings() {
+  useShortcutsVersion();
+  const [capturing, setCapturing] = React.useState<string | null>(null);
+
+  const commands = listCommands();
+  const groups = Array.from(new Set(commands.map((c) => c.group)));
+
+  // combo -> commands bound to it
+  const used = new Map<string, CommandDef[]>();
+  commands.forEach((c) => keysFor(c).forEach((k) => used.set(k, [...(used.get(k) ?? []), c])));
+
+  // Capture the next key press before anything else sees it (dialog Escape, the dispatcher)
+  React.useEffect(() => {
+    if (!capturing) return;
+    const id = capturing;
+    function onKey(e: KeyboardEvent) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === "Escape") { setCapturing(null); return; }
+      if (e.key === "Backspace" || e.key === "Delete") { setKeys(id, []); setCapturing(null); return; }
+      const combo = comboFromEvent(e);
+      if (!combo) return; // wait for the non-modifier key
+      setKeys(id, [combo]);
+      setCapturing(null);
+    }
+    window.addEventListener("keydown", onKey, true);
+    return () => window.removeEventListener("keydown", onKey, true);
+  }, [capturing]);
+
+  function clash(c: CommandDef, combo: string): string | null {
+    // a key shared by two tiles' commands is fine (it goes to the tile in use); within a tile or
+    // against an app-wide command only one of them can run
+    const others = (used.get(combo) ?? []).filter((o) => o !== c && (o.group === c.group || o.id.startsWith("app.") || c.id.startsWith("app.")));
+    return others.length ? `Also used by ${others.map((o) => `${o.group}: ${o.title}`).join(", ")}` : null;
+  }
+
+  return (
+    <div className="settings-grid">
+      <p className="muted" style={{ margin: 0 }}>
+        Click <em>Change</em> and press the new key (Esc cancels, Backspace removes it). Keys only reach a tile
+        when you aren’t typing in a field; the tile you used last gets them.
+      </p>
+
+      {groups.map((g) => (
+        <section className="settings-section" key={g}>
+          <h4>{g}</h4>
+          <ul className="shortcut-list">
+            {commands.filter((c) => c.group === g).map((c) => {
+              const keys = keysFor(c);
+              const warnings = keys.map((k) => clash(c, k)).filter(Boolean);
+              return (
+                <li key={c.id} className="shortcut-row">
+                  <span className="shortcut-title">
+                    {c.title}
+                    {warnings.length > 0 && <span className="shortcut-warn" title={warnings.join("\n")}> ⚠︎ conflict</span>}
+                  </span>
+                  <span className="palette-keys">
+                    {capturing === c.id ? (
+                      <span className="muted" aria-live="polite">Press a key…</span>
+                    ) : keys.length ? (
+                      keys.map((k) => <kbd key={k} className="kbd">{formatCombo(k)}</kbd>)
+                    ) : (
+                      <span className="muted">—</span>
+                    )}
+                  </span>
+                  <span className="row" style={{ gap: 6 }}>
+                    <button
+                      type="button"
+                      className="button small"
+                      onClick={() => setCapturing(capturing === c.id ? null : c.id)}
+                      aria-label={`Change shortcut for ${c.group}: ${c.title}`}
+                    >
+                      {capturing === c.id ? "Cancel" : "Change"}
+                    </button>
+                    <button
+                      type="button"
+                      className="button small"
+                      onClick={() => setKeys(c.id, null)}
+                      disabled={!isCustomized(c)}
+                      title={`Default: ${c.keys.length ? c.keys.map(formatCombo).join(", ") : "none"}`}
+                    >
+                      Reset
+                    </button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+
+      <div className="row" style={{ justifyContent: "flex-end" }}>
+        <button type="button" className="button small" onClick={resetAllKeys} disabled={!commands.some(isCustomized)}>
+          Reset all to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Read-only list of the bound keys per group (Help dialog). */
+export function ShortcutSummary() {
+  useShortcutsVersion();
+  const commands = listCommands().filter((c) => keysFor(c).length > 0);
+  const groups = Array.from(new Set(commands.map((c) => c.group)));
+  return (
+    <ul>
+      {groups.map((g) => (
+        <li key={g}>
+          <strong>{g}:</strong>{" "}
+          {commands
+            .filter((c) => c.group === g)
+            .map((c) => `${keysFor(c).map(formatCombo).join("/")} = ${c.title.toLowerCase()}`)
+            .join(", ")}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,62 @@
+import React from "react";
+import { defineCommand, useCommand, useKeyHint } from "../utils/shortcuts";
+import { useWakeLock } from "../utils/wakeLock";
+
+const CMD_EXIT = defineCommand({ id: "app.stageExit", group: "General", title: "Leave stage view", keys: ["escape"] });
+
+type Props = {
+  label: string;
+  onExit: () => void;
+};
+
+/**
+ * Tile bar controls while a tile is on stage. Mounting it enters stage mode:
+ * browser full screen where allowed, screen wake lock, Escape to leave.
+ * Leaving full screen from the browser leaves stage view too.
+ */
+export default function StageControls({ label, onExit }: Props) {
+  const wake = useWakeLock(true);
+  const exitRef = React.useRef<HTMLButtonElement | null>(null);
+  const exitHint = useKeyHint(CMD_EXIT);
+  useCommand(CMD_EXIT, onExit);
+
+  const onExitRef = React.useRef(onExit);
+  React.useEffect(() => { onExitRef.current = onExit; });
+
+  React.useEffect(() => {
+    exitRef.current?.focus();
+
+    let entered = false;
+    function onChange() {
+      if (document.fullscreenElement) entered = true;
+      else if (entered) onExitRef.current();
+    }
+    document.addEventListener("fullscreenchange", onChange);
+    // still within the click that opened stage view, so the request is allowed
+    document.documentElement.requestFullscreen?.().catch(() => {});
+
+    return () => {
+      document.removeEventListener("fullscreenchange", onChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  return (
+    <>
+      {wake !== "pending" && (
+        <span className="badge stage-wake" title="Wake lock: keeps the screen from dimming while on stage">
+          {wake === "active" ? "☀︎ Screen stays on" : "Screen may sleep"}
+        </span>
+      )}
+      <button
+        ref={exitRef}
+        type="button"
+        className="tile-close"
+        onClick={onExit}
+        aria-label={`Leave stage view of ${label}`}
+      >
+        ✕ Exit{exitHint ? ` (${exitHint})` : ""}
+      </button>
+    </>
+  );
+}
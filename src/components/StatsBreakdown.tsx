@@ -0,0 +1,148 @@
+import React from "react";
+import { INTERVALS } from "../data/intervals";
+import { ROOT_POOL } from "../utils/music";
+import { Attempt, Bucket, InputMethod, QuizMode, bucketize } from "../utils/quizStats";
+
+type Props = {
+  attempts: Attempt[];
+  onReset: () => void;
+};
+
+type MethodFilter = "all" | InputMethod;
+type ModeFilter = "all" | QuizMode;
+
+function fmtSec(ms: number | null) { return ms == null ? "—" : `${(ms / 1000).toFixed(1)}s`; }
+
+/** Green at 100%, red at 0%; transparent when there is no data. */
+function heat(b: Bucket): string {
+  if (!b.tries) return "transparent";
+  return `hsl(${Math.round(b.accuracy * 1.2)} 70% 45% / 0.35)`;
+}
+
+export default function StatsBreakdown({ attempts, onReset }: Props) {
+  const [method, setMethod] = React.useState<MethodFilter>("all");
+  const [mode, setMode] = React.useState<ModeFilter>("all");
+
+  const filtered = React.useMemo(
+    () => attempts.filter((a) =>
+      (method === "all" || a.input === method) &&
+      (mode === "all" || (a.mode ?? "theory") === mode)
+    ),
+    [attempts, method, mode]
+  );
+
+  const byInterval = React.useMemo(
+    () => bucketize(filtered, (a) => a.intervalId, INTERVALS.map((i) => i.id)).filter((b) => b.tries > 0),
+    [filtered]
+  );
+  const byRoot = React.useMemo(() => bucketize(filtered, (a) => a.root, ROOT_POOL), [filtered]);
+  const byDir = React.useMemo(() => bucketize(filtered, (a) => a.dir, ["up", "down"]), [filtered]);
+
+  return (
+    <div className="settings-grid">
+      <section className="settings-section">
+        <div className="row" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+          <div className="row" style={{ gap: 6 }}>
+            {(["all", "theory", "ear"] as ModeFilter[]).map((m) => (
+              <button
+                key={m}
+                type="button"
+                className={`chip-btn ${mode === m ? "active" : ""}`}
+                aria-pressed={mode === m}
+                onClick={() => setMode(m)}
+                style={{ textTransform: "capitalize" }}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <div className="row" style={{ gap: 6 }}>
+            {(["all", "typed", "mic", "choice"] as MethodFilter[]).map((m) => (
+              <button
+                key={m}
+                type="button"
+                className={`chip-btn ${method === m ? "active" : ""}`}
+                aria-pressed={method === m}
+                onClick={() => setMethod(m)}
+                style={{ textTransform: "capitalize" }}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <span className="muted">{filtered.length} attempts recorded</span>
+        </div>
+      </section>
+
+      {filtered.length === 0 ? (
+        <p className="muted">No attempts yet. Answer a few questions to see a breakdown.</p>
+      ) : (
+        <>
+          <section className="settings-section">
+            <h4>Per interval</h4>
+            <table className="stats-table">
+              <thead>
+                <tr><th>Interval</th><th>Tries</th><th>Accuracy</th><th>Median time</th></tr>
+              </thead>
+              <tbody>
+                {byInterval.map((b) => (
+                  <tr key={b.key}>
+                    <td><strong>{b.key}</strong></td>
+                    <td>{b.tries}</td>
+                    <td style={{ background: heat(b) }}>{b.accuracy}%</td>
+                    <td>{fmtSec(b.medianMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>By root</h4>
+            <div className="stats-heatmap">
+              {byRoot.map((b) => (
+                <div
+                  key={b.key}
+                  className="stats-cell"
+                  style={{ background: heat(b) }}
+                  title={b.tries ? `${b.key}: ${b.accuracy}% of ${b.tries}, median ${fmtSec(b.medianMs)}` : `${b.key}: no data`}
+                >
+                  <div className="stats-cell-key">{b.key}</div>
+                  <div className="stats-cell-val">{b.tries ? `${b.accuracy}%` : "—"}</div>
+                  <div className="stats-cell-sub muted">{fmtSec(b.medianMs)}</div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Up vs down</h4>
+            <div className="row" style={{ gap: 12, flexWrap: "wrap" }}>
+              {byDir.map((b) => (
+                <div key={b.key} className="stats-cell wide" style={{ background: heat(b) }}>
+                  <div className="stats-cell-key">{b.key === "up" ? "↑ Up" : "↓ Down"}</div>
+                  <div className="stats-cell-val">{b.tries ? `${b.accuracy}%` : "—"}</div>
+                  <div className="stats-cell-sub muted">
+                    {b.tries} tries • median {fmtSec(b.medianMs)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+
+      <div className="settings-divider" />
+
+      <section className="settings-section">
+        <button type="button" className="button small" onClick={onReset}>
+          Reset statistics
+        </button>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import React from "react";
+import { TRANSPORT_MAX_BPM, TRANSPORT_MIN_BPM, transport, useTransport } from "../utils/transport";
+
+/** Top bar transport: start/stop every following rhythm tile and set the shared tempo. */
+export default function TransportControl() {
+  const { playing, bpm, followers } = useTransport();
+  const [input, setInput] = React.useState(String(bpm));
+  React.useEffect(() => { setInput(String(bpm)); }, [bpm]);
+
+  function commit() {
+    const n = Number(input);
+    if (input === "" || !Number.isFinite(n)) { setInput(String(bpm)); return; }
+    transport.setBpm(n);
+    setInput(String(Math.round(Math.min(TRANSPORT_MAX_BPM, Math.max(TRANSPORT_MIN_BPM, n)))));
+  }
+
+  return (
+    <div className="transport" role="group" aria-label="Transport">
+      <button
+        className="icon-btn"
+        onClick={() => transport.toggle()}
+        disabled={followers === 0}
+        title={followers === 0 ? "No tile follows the transport (tick Follow transport on a rhythm tile)" : playing ? "Stop all (Space)" : "Start all (Space)"}
+        aria-label={playing ? "Stop transport" : "Start transport"}
+        aria-pressed={playing}
+      >
+        {playing ? "⏹" : "▶"}
+      </button>
+      <input
+        className="input"
+        type="text"
+        inputMode="numeric"
+        value={input}
+        onChange={(e) => { if (/^[0-9]{0,3}$/.test(e.target.value)) setInput(e.target.value); }}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); commit(); } }}
+        aria-label="Transport tempo (BPM)"
+        title="Shared tempo (BPM)"
+      />
+      <span className="muted">BPM</span>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React from "react";
 import { midiToFreq, freqToMidi } from "../utils/audio";
-import { PC_TO_NAME } from "../utils/music";
+import { PC_TO_NAME, spokenNote } from "../utils/music";
 
 function clamp(v: number, min: number, max: number) {
   return Math.max(min, Math.min(max, v));
@@ -39,22 +39,32 @@ export default function Tuner({ hz }: { hz: number | null }) {
   else heat = "far";
 
   const posPct = (cents + 50) / 100; // 0..1 across the bar
+  const hasPitch = !!hz && isFinite(hz);
+  const centsText = cents === 0 ? "in tune" : `${Math.abs(cents)} cents ${cents > 0 ? "sharp" : "flat"}`;
 
   return (
     <div className="tuner">
-      <div className="tuner-note">
+      <div className="tuner-note" role="img" aria-label={hasPitch ? `Nearest note ${spokenNote(displayNote + octave)}` : "No pitch detected"}>
         <span className="tuner-note-name">{displayNote}</span>
         <span className="tuner-octave">{octave}</span>
       </div>
 
       <div className="tuner-meter">
-        <div className="tuner-scale">
+        <div className="tuner-scale" aria-hidden>
           <span>−50¢</span>
           <span>0¢</span>
           <span>+50¢</span>
         </div>
 
-        <div className={`tuner-track ${heat}`}>
+        <div
+          className={`tuner-track ${heat}`}
+          role="meter"
+          aria-label="Tuning"
+          aria-valuemin={-50}
+          aria-valuemax={50}
+          aria-valuenow={cents}
+          aria-valuetext={hasPitch ? centsText : "No pitch detected"}
+        >
           {/* heat overlay that color-codes the whole bar */}
           <div className="tuner-heat" />
           {/* needle + center mark */}
@@ -62,7 +72,7 @@ export default function Tuner({ hz }: { hz: number | null }) {
           <div className="tuner-center-mark" />
         </div>
 
-        <div className="tuner-cents">
+        <div className="tuner-cents" aria-hidden>
           {hz
             ? (cents > 0 ? `+${Math.round(cents)}¢ (sharp)` : `${Math.round(cents)}¢ (flat)`)
             : "—"}
@@ -0,0 +1,19 @@
+import { useServiceWorker } from "../utils/serviceWorker";
+
+/** Toast for service worker events: offline cache ready, new build available. */
+export default function UpdatePrompt() {
+  const { offlineReady, updateReady, applyUpdate, dismiss } = useServiceWorker();
+  if (!offlineReady && !updateReady) return null;
+
+  return (
+    <div className="app-toast" role="status">
+      <span>{updateReady ? "A new version of ToneGenius is available." : "Ready to work offline."}</span>
+      {updateReady && (
+        <button type="button" className="button small" onClick={applyUpdate}>Reload</button>
+      )}
+      <button type="button" className="button small" onClick={dismiss}>
+        {updateReady ? "Later" : "OK"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { INTERVALS, spanSemitones } from "./intervals";
+
+export type ChordQuality = {
+  id: string;        // short label shown to user
+  name: string;      // long name (tooltip)
+  tones: string[];   // chord tones as interval ids above the root ("1" = root)
+  group: "triads" | "sevenths" | "extensions";
+};
+
+/**
+ * Altered chord tones that have no entry in INTERVALS (semitones above the root).
+ * Everything else resolves through INTERVALS, so extensions (b9, 9, #9, 11, #11,
+ * b13, 13) share one vocabulary with the Interval Quiz and sound in their real octave.
+ */
+const TONE_ALIASES: Record<string, number> = {
+  "1": 0,
+  "b5": 6,
+  "#5": 8,
+  "bb7": 9,
+};
+
+/**
+ * Qualities you want to drill. Tones are listed in root position, close voicing.
+ * Add/remove freely.
+ */
+export const CHORDS: ChordQuality[] = [
+  // triads
+  { id: "maj",  name: "Major",        tones: ["1", "M3", "P5"], group: "triads" },
+  { id: "min",  name: "Minor",        tones: ["1", "m3", "P5"], group: "triads" },
+  { id: "dim",  name: "Diminished",   tones: ["1", "m3", "b5"], group: "triads" },
+  { id: "aug",  name: "Augmented",    tones: ["1", "M3", "#5"], group: "triads" },
+  { id: "sus2", name: "Suspended 2",  tones: ["1", "M2", "P5"], group: "triads" },
+  { id: "sus4", name: "Suspended 4",  tones: ["1", "P4", "P5"], group: "triads" },
+
+  // sevenths (and sixths)
+  { id: "maj7",  name: "Major 7",           tones: ["1", "M3", "P5", "M7"],  group: "sevenths" },
+  { id: "7",     name: "Dominant 7",        tones: ["1", "M3", "P5", "m7"],  group: "sevenths" },
+  { id: "m7",    name: "Minor 7",           tones: ["1", "m3", "P5", "m7"],  group: "sevenths" },
+  { id: "m7b5",  name: "Half-diminished",   tones: ["1", "m3", "b5", "m7"],  group: "sevenths" },
+  { id: "dim7",  name: "Diminished 7",      tones: ["1", "m3", "b5", "bb7"], group: "sevenths" },
+  { id: "mMaj7", name: "Minor-major 7",     tones: ["1", "m3", "P5", "M7"],  group: "sevenths" },
+  { id: "7sus4", name: "Dominant 7 sus4",   tones: ["1", "P4", "P5", "m7"],  group: "sevenths" },
+  { id: "6",     name: "Major 6",           tones: ["1", "M3", "P5", "M6"],  group: "sevenths" },
+  { id: "m6",    name: "Minor 6",           tones: ["1", "m3", "P5", "M6"],  group: "sevenths" },
+
+  // extensions
+  { id: "maj9",   name: "Major 9",          tones: ["1", "M3", "P5", "M7", "9"],         group: "extensions" },
+  { id: "9",      name: "Dominant 9",       tones: ["1", "M3", "P5", "m7", "9"],         group: "extensions" },
+  { id: "m9",     name: "Minor 9",          tones: ["1", "m3", "P5", "m7", "9"],         group: "extensions" },
+  { id: "7b9",    name: "Dominant 7 ♭9",    tones: ["1", "M3", "P5", "m7", "b9"],        group: "extensions" },
+  { id: "7#9",    name: "Dominant 7 ♯9",    tones: ["1", "M3", "P5", "m7", "#9"],        group: "extensions" },
+  { id: "m11",    name: "Minor 11",         tones: ["1", "m3", "P5", "m7", "9", "11"],   group: "extensions" },
+  { id: "maj7#11",name: "Major 7 ♯11",      tones: ["1", "M3", "P5", "M7", "#11"],       group: "extensions" },
+  { id: "7#11",   name: "Dominant 7 ♯11",   tones: ["1", "M3", "P5", "m7", "#11"],       group: "extensions" },
+  { id: "7b13",   name: "Dominant 7 ♭13",   tones: ["1", "M3", "P5", "m7", "b13"],       group: "extensions" },
+  { id: "13",     name: "Dominant 13",      tones: ["1", "M3", "P5", "m7", "9", "13"],   group: "extensions" },
+];
+
+export type Voicing = "close" | "drop2" | "spread";
+export const VOICINGS: Voicing[] = ["close", "drop2", "spread"];
+
+/** Semitones above the root for one chord tone id. */
+export function toneSemitones(tone: string): number {
+  if (tone in TONE_ALIASES) return TONE_ALIASES[tone];
+  const iv = INTERVALS.find((i) => i.id === tone);
+  if (!iv) throw new Error(`Unknown chord tone: ${tone}`);
+  return spanSemitones(iv);
+}
+
+/** Inversions that make sense for a chord (root position .. 3rd inversion, capped by tone count). */
+export function maxInversion(chord: ChordQuality): number {
+  return Math.min(3, chord.tones.length - 1);
+}
+
+/**
+ * Offsets (semitones, relative to the root's octave) for a chord in a given inversion + voicing.
+ * Inversion k lifts the k lowest chord tones by an octave; drop2 lowers the second-highest
+ * note an octave; spread drops the bass an octave below the rest.
+ */
+export function voiceChord(chord: ChordQuality, inversion: number, voicing: Voicing): number[] {
+  const base = chord.tones.map(toneSemitones).sort((a, b) => a - b);
+  const inv = Math.max(0, Math.min(inversion, maxInversion(chord)));
+  const notes = [...base.slice(inv), ...base.slice(0, inv).map((s) => s + 12)].sort((a, b) => a - b);
+
+  if (voicing === "drop2" && notes.length >= 3) {
+    const idx = notes.length - 2;
+    notes[idx] -= 12;
+    notes.sort((a, b) => a - b);
+  } else if (voicing === "spread" && notes.length >= 2) {
+    notes[0] -= 12;
+  }
+  return notes;
+}
@@ -1,33 +1,57 @@
 export type Interval = {
   id: string;       // short label shown to user
   semitones: number; // modulo-12 distance
-  group: "simple" | "extensions";
+  number: number;   // generic interval number (letter distance + 1), e.g. 3 for m3/M3, 9 for b9
+  group: "simple" | "extensions" | "compound";
 };
 
 /**
- * Intervals you want to drill. All “compound” ones map mod 12.
+ * Intervals you want to drill. Extensions and compound intervals map mod 12 here;
+ * use spanSemitones() for their real size (octave-aware mode, ear mode, chords).
  * Add/remove freely.
  */
 export const INTERVALS: Interval[] = [
   // simple
-  { id: "m2", semitones: 1, group: "simple" },
-  { id: "M2", semitones: 2, group: "simple" },
-  { id: "m3", semitones: 3, group: "simple" },
-  { id: "M3", semitones: 4, group: "simple" },
-  { id: "P4", semitones: 5, group: "simple" },
-  { id: "TT", semitones: 6, group: "simple" }, // Tritone
-  { id: "P5", semitones: 7, group: "simple" },
-  { id: "m6", semitones: 8, group: "simple" },
-  { id: "M6", semitones: 9, group: "simple" },
-  { id: "m7", semitones: 10, group: "simple" },
-  { id: "M7", semitones: 11, group: "simple" },
+  { id: "m2", semitones: 1, number: 2,  group: "simple" },
+  { id: "M2", semitones: 2, number: 2,  group: "simple" },
+  { id: "m3", semitones: 3, number: 3,  group: "simple" },
+  { id: "M3", semitones: 4, number: 3,  group: "simple" },
+  { id: "P4", semitones: 5, number: 4,  group: "simple" },
+  { id: "TT", semitones: 6, number: 4,  group: "simple" }, // Tritone, spelled as an augmented 4th
+  { id: "P5", semitones: 7, number: 5,  group: "simple" },
+  { id: "m6", semitones: 8, number: 6,  group: "simple" },
+  { id: "M6", semitones: 9, number: 6,  group: "simple" },
+  { id: "m7", semitones: 10, number: 7, group: "simple" },
+  { id: "M7", semitones: 11, number: 7, group: "simple" },
 
   // extensions (mod 12)
-  { id: "b9", semitones: 1, group: "extensions" },
-  { id: "9",  semitones: 2, group: "extensions" },
-  { id: "#9", semitones: 3, group: "extensions" },
-  { id: "11", semitones: 5, group: "extensions" },
-  { id: "#11",semitones: 6, group: "extensions" },
-  { id: "b13",semitones: 8, group: "extensions" },
-  { id: "13", semitones: 9, group: "extensions" },
+  { id: "b9", semitones: 1, number: 9,  group: "extensions" },
+  { id: "9",  semitones: 2, number: 9,  group: "extensions" },
+  { id: "#9", semitones: 3, number: 9,  group: "extensions" },
+  { id: "11", semitones: 5, number: 11, group: "extensions" },
+  { id: "#11",semitones: 6, number: 11, group: "extensions" },
+  { id: "b13",semitones: 8, number: 13, group: "extensions" },
+  { id: "13", semitones: 9, number: 13, group: "extensions" },
+
+  // compound (mod 12; one octave above their simple counterpart)
+  { id: "P8",  semitones: 0, number: 8,  group: "compound" },
+  { id: "m10", semitones: 3, number: 10, group: "compound" },
+  { id: "M10", semitones: 4, number: 10, group: "compound" },
+  { id: "P12", semitones: 7, number: 12, group: "compound" },
 ];
+
+/** Real (non-wrapped) size in semitones: extensions and compounds sound an octave above their mod-12 value. */
+export function spanSemitones(i: Interval): number {
+  return i.group === "simple" ? i.semitones : i.semitones + 12;
+}
+
+/** Spoken form for screen readers: "m3" -> "minor 3rd", "#11" -> "sharp 11th", "TT" -> "tritone". */
+export function spokenInterval(id: string): string {
+  if (id === "TT") return "tritone";
+  const m = /^([mMP]|b|#)?(\d+)$/.exec(id);
+  if (!m) return id;
+  const n = Number(m[2]);
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  const quality: Record<string, string> = { m: "minor ", M: "major ", P: "perfect ", b: "flat ", "#": "sharp " };
+  return `${quality[m[1] ?? ""] ?? ""}${n}${suffix}`;
+}
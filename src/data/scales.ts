@@ -0,0 +1,30 @@
+export type ScaleDegree = {
+  number: number;    // scale degree / generic interval above the tonic (1..7)
+  semitones: number; // distance above the tonic
+};
+
+export type Scale = {
+  id: string;
+  name: string;
+  degrees: ScaleDegree[];
+};
+
+const deg = (...pairs: [number, number][]): ScaleDegree[] =>
+  pairs.map(([number, semitones]) => ({ number, semitones }));
+
+/**
+ * Scales for melody generation. Degrees carry their number so notes can be
+ * spelled by letter (see spellInterval). Add/remove freely.
+ */
+export const SCALES: Scale[] = [
+  { id: "major",      name: "Major",            degrees: deg([1, 0], [2, 2], [3, 4], [4, 5], [5, 7], [6, 9], [7, 11]) },
+  { id: "minor",      name: "Natural minor",    degrees: deg([1, 0], [2, 2], [3, 3], [4, 5], [5, 7], [6, 8], [7, 10]) },
+  { id: "harmMinor",  name: "Harmonic minor",   degrees: deg([1, 0], [2, 2], [3, 3], [4, 5], [5, 7], [6, 8], [7, 11]) },
+  { id: "dorian",     name: "Dorian",           degrees: deg([1, 0], [2, 2], [3, 3], [4, 5], [5, 7], [6, 9], [7, 10]) },
+  { id: "mixolydian", name: "Mixolydian",       degrees: deg([1, 0], [2, 2], [3, 4], [4, 5], [5, 7], [6, 9], [7, 10]) },
+  { id: "majPent",    name: "Major pentatonic", degrees: deg([1, 0], [2, 2], [3, 4], [5, 7], [6, 9]) },
+  { id: "minPent",    name: "Minor pentatonic", degrees: deg([1, 0], [3, 3], [4, 5], [5, 7], [7, 10]) },
+];
+
+/** Tonics offered in key pickers (circle-of-fifths friendly spellings). */
+export const KEY_TONICS = ["C", "G", "D", "A", "E", "B", "F#", "Db", "Ab", "Eb", "Bb", "F"];
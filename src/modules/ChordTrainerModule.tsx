@@ -0,0 +1,365 @@
+// src/modules/ChordTrainerModule.tsx
+import React from "react";
+import SettingsDialog from "../components/SettingsDialog";
+import ChordPicker, { useChordSelection } from "../components/ChordPicker";
+import { CHORDS, ChordQuality, Voicing, VOICINGS, maxInversion, voiceChord } from "../data/chords";
+import { playChord } from "../utils/audio";
+import { PC_TO_NAME, randomOf } from "../utils/music";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, intIn, isRecord, oneOf, setOf, shape, usePersistentState } from "../utils/persist";
+import { defineCommand, useCommand, useKeyHint } from "../utils/shortcuts";
+import { defineModule } from "./registry";
+
+type PlayStyle = "block" | "arpeggio";
+
+type Question = {
+  chord: ChordQuality;
+  rootPc: number;
+  inversion: number;
+  voicing: Voicing;
+  midis: number[];
+};
+
+type QualityTally = { tries: number; correct: number };
+type Stats = {
+  correct: number; total: number; streak: number; best: number;
+  totalTimeMs: number; lastTimeMs: number;
+  byQuality: Record<string, QualityTally>;
+};
+
+const EMPTY_STATS: Stats = { correct: 0, total: 0, streak: 0, best: 0, totalTimeMs: 0, lastTimeMs: 0, byQuality: {} };
+
+const count = intIn(0, Number.MAX_SAFE_INTEGER);
+const STATS: Schema<Stats> = {
+  key: "chordTrainer.stats.v1",
+  version: 1,
+  kind: "data",
+  fallback: EMPTY_STATS,
+  parse: shape<Stats>({
+    correct: count, total: count, streak: count, best: count, totalTimeMs: count, lastTimeMs: count,
+    byQuality: (d) => {
+      if (!isRecord(d)) return undefined;
+      const tally = shape<QualityTally>({ tries: count, correct: count }, { tries: 0, correct: 0 });
+      const out: Record<string, QualityTally> = {};
+      Object.entries(d).forEach(([id, t]) => { const v = tally(t); if (v) out[id] = v; });
+      return out;
+    },
+  }, EMPTY_STATS),
+};
+const INVERSIONS: Schema<Set<number>> = {
+  key: "chordTrainer.inversions.v1", version: 1, fallback: new Set([0]),
+  parse: setOf(oneOf([0, 1, 2, 3])), serialize: (s) => Array.from(s),
+};
+const VOICING_SET: Schema<Set<Voicing>> = {
+  key: "chordTrainer.voicings.v1", version: 1, fallback: new Set<Voicing>(["close"]),
+  parse: setOf(oneOf(VOICINGS)), serialize: (s) => Array.from(s),
+};
+const OCTAVE: Schema<number> = { key: "chordTrainer.octave.v1", version: 1, fallback: 3, parse: intIn(2, 5) };
+const WAVE: Schema<OscillatorType> = {
+  key: "chordTrainer.wave.v1", version: 1, fallback: "triangle",
+  parse: oneOf<OscillatorType>(["sine", "triangle", "square", "sawtooth"]),
+};
+const STYLE: Schema<PlayStyle> = { key: "chordTrainer.style.v1", version: 1, fallback: "block", parse: oneOf<PlayStyle>(["block", "arpeggio"]) };
+
+const AUTO_NEXT_MS = 900;   // leave the answer visible for a moment
+const ARPEGGIO_MS = 220;
+const INVERSION_LABEL = ["Root position", "1st inversion", "2nd inversion", "3rd inversion"];
+const VOICING_LABEL: Record<Voicing, string> = { close: "Close", drop2: "Drop 2", spread: "Spread (bass down)" };
+
+const CMD_NEXT = defineCommand({ id: "chord.next", group: "Chord Trainer", title: "Next chord", keys: ["n"] });
+const CMD_REPLAY = defineCommand({ id: "chord.replay", group: "Chord Trainer", title: "Replay chord", keys: ["r"] });
+const CMD_SETTINGS = defineCommand({ id: "chord.settings", group: "Chord Trainer", title: "Open/close settings", keys: ["s"] });
+
+function msToSec(ms: number) { return (ms / 1000).toFixed(1); }
+
+function makeQuestion(selected: Set<string>, inversions: Set<number>, voicings: Set<Voicing>, octave: number): Question {
+  const chord = randomOf(CHORDS.filter((c) => selected.has(c.id)));
+  const feasible = Array.from(inversions).filter((i) => i <= maxInversion(chord));
+  const inversion = feasible.length ? randomOf(feasible) : 0;
+  const voicing = voicings.size ? randomOf(Array.from(voicings)) : "close";
+  const rootPc = Math.floor(Math.random() * 12);
+  const bass = (octave + 1) * 12 + rootPc; // C4=60
+  const midis = voiceChord(chord, inversion, voicing).map((s) => bass + s);
+  return { chord, rootPc, inversion, voicing, midis };
+}
+
+export default function ChordTrainerModule() {
+  const [selected, setSelected] = useChordSelection();
+
+  const [inversions, setInversions] = usePersistentState(INVERSIONS);
+  const [voicings, setVoicings] = usePersistentState(VOICING_SET);
+  const [octave, setOctave] = usePersistentState(OCTAVE);
+  const [wave, setWave] = usePersistentState(WAVE);
+  const [style, setStyle] = usePersistentState(STYLE);
+
+  const [stats, setStats] = usePersistentState(STATS);
+
+  const [question, setQuestion] = React.useState<Question | null>(null);
+  const [qStartedAt, setQStartedAt] = React.useState<number>(() => Date.now());
+  const [wrongPicks, setWrongPicks] = React.useState<Set<string>>(new Set());
+  const [revealed, setRevealed] = React.useState(false);
+  const [openSettings, setOpenSettings] = React.useState(false);
+  const [openStats, setOpenStats] = React.useState(false);
+
+  const stopRef = React.useRef<null | (() => void)>(null);
+  const firstTryRef = React.useRef(true); // only the first pick counts toward per-quality accuracy
+  const nextTimerRef = React.useRef<number | null>(null);
+  const practice = usePracticeSession("chord");
+
+  function stopAudio() {
+    try { stopRef.current?.(); } catch {}
+    stopRef.current = null;
+  }
+  function play(q: Question | null = question) {
+    if (!q) return;
+    stopAudio();
+    try { stopRef.current = playChord(q.midis, 1500, wave, -8, style === "arpeggio" ? ARPEGGIO_MS : 0); } catch {}
+  }
+  function clearNextTimer() {
+    if (nextTimerRef.current != null) window.clearTimeout(nextTimerRef.current);
+    nextTimerRef.current = null;
+  }
+  React.useEffect(() => () => { clearNextTimer(); stopAudio(); }, []);
+
+  function startNewQuestion() {
+    clearNextTimer();
+    if (selected.size === 0) { setQuestion(null); return; }
+    const q = makeQuestion(selected, inversions, voicings, octave);
+    setQuestion(q);
+    setQStartedAt(Date.now());
+    setWrongPicks(new Set());
+    setRevealed(false);
+    firstTryRef.current = true;
+    play(q);
+  }
+
+  React.useEffect(() => { startNewQuestion(); }, [selected, inversions, voicings, octave]);
+
+  function answer(id: string) {
+    if (!question || revealed || wrongPicks.has(id)) return;
+    const elapsed = Date.now() - qStartedAt;
+    const ok = id === question.chord.id;
+    const counted = firstTryRef.current;
+    firstTryRef.current = false;
+    practice.count(ok);
+
+    setStats((s) => {
+      const total = s.total + 1;
+      const correct = s.correct + (ok ? 1 : 0);
+      const streak = ok ? s.streak + 1 : 0;
+      const best = Math.max(s.best, streak);
+      const totalTimeMs = ok ? s.totalTimeMs + elapsed : s.totalTimeMs;
+      const byQuality = { ...s.byQuality };
+      if (counted) {
+        const prev = byQuality[question.chord.id] ?? { tries: 0, correct: 0 };
+        byQuality[question.chord.id] = { tries: prev.tries + 1, correct: prev.correct + (ok ? 1 : 0) };
+      }
+      return { correct, total, streak, best, totalTimeMs, lastTimeMs: elapsed, byQuality };
+    });
+
+    if (ok) {
+      setRevealed(true);
+      nextTimerRef.current = window.setTimeout(startNewQuestion, AUTO_NEXT_MS);
+    } else {
+      setWrongPicks((prev) => new Set(prev).add(id));
+    }
+  }
+
+  function toggleInversion(i: number, checked: boolean) {
+    const next = new Set(inversions);
+    checked ? next.add(i) : next.delete(i);
+    setInversions(next.size ? next : new Set([0]));
+  }
+  function toggleVoicing(v: Voicing, checked: boolean) {
+    const next = new Set(voicings);
+    checked ? next.add(v) : next.delete(v);
+    setVoicings(next.size ? next : new Set<Voicing>(["close"]));
+  }
+
+  const accuracy = stats.total === 0 ? 100 : Math.round((stats.correct / stats.total) * 100);
+  const avgMs = stats.correct === 0 ? 0 : Math.round(stats.totalTimeMs / stats.correct);
+  const choices = CHORDS.filter((c) => selected.has(c.id));
+
+  useCommand(CMD_NEXT, startNewQuestion);
+  useCommand(CMD_REPLAY, () => play());
+  useCommand(CMD_SETTINGS, () => setOpenSettings((v) => !v));
+  const nextHint = useKeyHint(CMD_NEXT);
+  const replayHint = useKeyHint(CMD_REPLAY);
+
+  return (
+    <div className="panel">
+      <div className="row" style={{ justifyContent: "flex-end", marginBottom: 6 }}>
+        <button type="button" className="icon-btn" aria-label="Open statistics" title="Statistics" onClick={() => setOpenStats(true)}>
+          📊
+        </button>
+        <button type="button" className="icon-btn" aria-label="Open settings" title="Settings" onClick={() => setOpenSettings(true)}>
+          ⚙️
+        </button>
+      </div>
+
+      <div className="controls row stats-bar">
+        <span className="badge">Correct: {stats.correct}</span>
+        <span className="badge">Tries: {stats.total}</span>
+        <span className="badge">Accuracy: {accuracy}%</span>
+        <span className="badge">Streak: {stats.streak}</span>
+        <span className="badge">Best: {stats.best}</span>
+        <span className="badge">Avg: {stats.correct ? `${msToSec(avgMs)}s` : "—"}</span>
+      </div>
+
+      {!question ? (
+        <p className="muted" style={{ marginTop: 8 }}>
+          Open <span className="kbd">Settings</span> to choose chord qualities to practice.
+        </p>
+      ) : (
+        <>
+          <div className="centered" style={{ marginTop: 14 }}>
+            <div className="hero-label">Quality</div>
+            <div className="hero-note">{revealed ? question.chord.id : "?"}</div>
+            <div className="hero-sub muted" style={{ marginTop: 8 }}>
+              {revealed
+                ? `${PC_TO_NAME[question.rootPc]} ${question.chord.name} — ${INVERSION_LABEL[question.inversion]}, ${VOICING_LABEL[question.voicing].toLowerCase()}`
+                : "Listen and name the chord quality."}
+            </div>
+          </div>
+
+          <div className="answer-row">
+            <button type="button" className="button" onClick={() => play()} title={replayHint ? `Replay (${replayHint})` : "Replay"}>↻ Replay</button>
+            <button type="button" className="button" onClick={startNewQuestion}>{nextHint ? `Next (${nextHint})` : "Next"}</button>
+          </div>
+
+          <div className="ear-choices">
+            {choices.map((c) => (
+              <button
+                key={c.id}
+                type="button"
+                className={`button ear-choice ${wrongPicks.has(c.id) ? "wrong" : ""}`}
+                title={c.name}
+                onClick={() => answer(c.id)}
+                disabled={revealed || wrongPicks.has(c.id)}
+              >
+                {c.id}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <SettingsDialog title="Chord Statistics" open={openStats} onClose={() => setOpenStats(false)}>
+        <div className="settings-grid">
+          <section className="settings-section">
+            <h4>Per quality (first try)</h4>
+            <table className="stats-table">
+              <thead>
+                <tr><th>Quality</th><th>Tries</th><th>Accuracy</th></tr>
+              </thead>
+              <tbody>
+                {CHORDS.filter((c) => stats.byQuality[c.id]?.tries).map((c) => {
+                  const t = stats.byQuality[c.id];
+                  return (
+                    <tr key={c.id}>
+                      <td title={c.name}><strong>{c.id}</strong></td>
+                      <td>{t.tries}</td>
+                      <td>{Math.round((t.correct / t.tries) * 100)}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </section>
+          <div className="settings-divider" />
+          <section className="settings-section">
+            <button type="button" className="button small" onClick={() => setStats(EMPTY_STATS)}>
+              Reset statistics
+            </button>
+          </section>
+        </div>
+      </SettingsDialog>
+
+      <SettingsDialog title="Chord Settings" open={openSettings} onClose={() => setOpenSettings(false)}>
+        <div className="settings-grid">
+          <section className="settings-section">
+            <h4>Inversions</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              {INVERSION_LABEL.map((label, i) => (
+                <label key={i} className="check" style={{ gap: 8 }}>
+                  <input
+                    type="checkbox"
+                    checked={inversions.has(i)}
+                    onChange={(e) => toggleInversion(i, e.target.checked)}
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+            <p className="muted" style={{ marginTop: 6 }}>
+              3rd inversion only applies to chords with four or more tones.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Voicings</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              {VOICINGS.map((v) => (
+                <label key={v} className="check" style={{ gap: 8 }}>
+                  <input
+                    type="checkbox"
+                    checked={voicings.has(v)}
+                    onChange={(e) => toggleVoicing(v, e.target.checked)}
+                  />
+                  <span>{VOICING_LABEL[v]}</span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Playback</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Bass octave</span>
+                <select className="select" value={octave} onChange={(e) => setOctave(Number(e.target.value))}>
+                  {[2, 3, 4, 5].map((o) => <option key={o} value={o}>{o}</option>)}
+                </select>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Wave</span>
+                <select className="select" value={wave} onChange={(e) => setWave(e.target.value as OscillatorType)}>
+                  {["sine", "triangle", "square", "sawtooth"].map((w) => <option key={w} value={w}>{w}</option>)}
+                </select>
+              </label>
+              {(["block", "arpeggio"] as PlayStyle[]).map((opt) => (
+                <label key={opt} className="check" style={{ gap: 8 }}>
+                  <input type="radio" name="chord-style" checked={style === opt} onChange={() => setStyle(opt)} />
+                  <span style={{ textTransform: "capitalize" }}>{opt}</span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Qualities</h4>
+            <p className="muted" style={{ marginTop: 0 }}>
+              Choose which chord qualities to include.
+            </p>
+            <ChordPicker selected={selected} onChange={setSelected} />
+          </section>
+        </div>
+      </SettingsDialog>
+    </div>
+  );
+}
+
+export const MODULE = defineModule({
+  key: "chord",
+  title: "Chord Trainer",
+  icon: "🎹",
+  storagePrefix: "chordTrainer.",
+  singleton: true,
+  component: ChordTrainerModule,
+});
@@ -1,7 +1,30 @@
 // src/modules/ChromaticTunerModule.tsx
 import React from "react";
 import Tuner from "../components/Tuner";
-import { startMicAnalyser, detectPitchHzYIN } from "../utils/audio";
+import SettingsDialog from "../components/SettingsDialog";
+import MicSettings from "../components/MicSettings";
+import { useMic, PitchEvent } from "../utils/mic";
+import { usePracticeSession } from "../utils/practiceLog";
+import { DETECTORS, DetectorId } from "../utils/pitchDetect";
+import { Schema, boolean, oneOf, usePersistentState } from "../utils/persist";
+import { defineCommand, useCommand } from "../utils/shortcuts";
+import { defineModule } from "./registry";
+
+const LISTEN: Schema<boolean> = { key: "tuner.listen", version: 1, fallback: true, parse: boolean };
+const DETECTOR_IDS = Object.keys(DETECTORS) as DetectorId[];
+const DETECTOR: Schema<DetectorId> = { key: "tuner.detector", version: 1, fallback: "yin", parse: oneOf(DETECTOR_IDS) };
+// highest note listened for; above ~900 Hz the low-pass in the mic chain opens up to match
+const RANGES = [
+  { maxHz: 900, label: "up to 900 Hz (voice, most instruments)" },
+  { maxHz: 1500, label: "up to 1.5 kHz (violin, flute)" },
+  { maxHz: 2500, label: "up to 2.5 kHz (piccolo, high whistles)" },
+  { maxHz: 4000, label: "up to 4 kHz (whistling)" },
+];
+const MAX_HZ: Schema<number> = {
+  key: "tuner.maxHz", version: 1, fallback: 900, parse: oneOf(RANGES.map((r) => r.maxHz)),
+};
+const CMD_LISTEN = defineCommand({ id: "tuner.listen", group: "Chromatic Tuner", title: "Start/stop listening", keys: [] });
+const CMD_SETTINGS = defineCommand({ id: "tuner.settings", group: "Chromatic Tuner", title: "Open/close settings", keys: [] });
 
 /* One-Euro Filter (adaptive low-pass)
    https://cristal.univ-lille.fr/~casiez/1euro/ */
@@ -35,99 +58,66 @@ class OneEuro {
 }
 
 export default function ChromaticTunerModule() {
-  const [listening, setListening] = React.useState<boolean>(
-    () => (localStorage.getItem("tuner.listen") ?? "true") === "true"
-  );
+  const [listening, setListening] = usePersistentState(LISTEN);
+  useCommand(CMD_LISTEN, () => setListening((v) => !v));
   const [hz, setHz] = React.useState<number | null>(null);
   const [level, setLevel] = React.useState(0); // mic meter 0..1
-
-  const analyserRef = React.useRef<AnalyserNode | null>(null);
-  const cleanupRef = React.useRef<() => void>(() => {});
-  const rafRef = React.useRef<number | null>(null);
+  const [detector, setDetector] = usePersistentState(DETECTOR);
+  const [maxHz, setMaxHz] = usePersistentState(MAX_HZ);
+  const [openSettings, setOpenSettings] = React.useState(false);
+  useCommand(CMD_SETTINGS, () => setOpenSettings((v) => !v));
 
   // smoothing state
-  const lastTsRef = React.useRef<number>(0);
+  const lastTimeRef = React.useRef<number | null>(null);
   const euroRef = React.useRef<OneEuro>(new OneEuro(60, 1.2, 0.01, 1.5));
+  const smoothRef = React.useRef<number | null>(null);
   const lastReportRef = React.useRef<number>(0);
 
+  // practice log: time spent listening
+  const practice = usePracticeSession("tuner");
   React.useEffect(() => {
-    localStorage.setItem("tuner.listen", String(listening));
-  }, [listening]);
+    listening ? practice.begin() : practice.end();
+  }, [listening, practice]);
 
   React.useEffect(() => {
-    if (!listening) { stop(); setHz(null); setLevel(0); return; }
-    start().catch(() => setListening(false));
-    return stop;
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [listening]);
-
-  async function start() {
-    // No compressor anywhere; just optional gentle band-limiting in the analyser chain
-    const { analyser, cleanup } = await startMicAnalyser({
-      fftSize: 8192,
-      filtering: true,
-      hpHz: 45,
-      lpHz: 1200,
-      notch50: true,
-      notch60: false,
-    });
-    analyserRef.current = analyser;
-    cleanupRef.current = cleanup;
-    lastTsRef.current = performance.now();
+    if (!listening) { setHz(null); setLevel(0); return; }
+    lastTimeRef.current = null;
     lastReportRef.current = 0;
+    smoothRef.current = null;
     euroRef.current = new OneEuro(60, 1.2, 0.01, 1.5);
-    tick();
-  }
-
-  function stop() {
-    if (rafRef.current != null) cancelAnimationFrame(rafRef.current);
-    rafRef.current = null;
-    try { cleanupRef.current(); } catch {}
-    analyserRef.current = null;
-  }
+  }, [listening]);
 
-  function tick() {
-    const an = analyserRef.current;
-    if (!an) return;
+  useMic(listening, onPitch, {
+    detector: { detector, minHz: 30, maxHz },
+    onError: () => setListening(false),
+  });
 
-    const now = performance.now();
-    const dtMs = Math.min(150, Math.max(0.001, now - (lastTsRef.current || now)));
-    const dt = dtMs / 1000; // seconds
-    lastTsRef.current = now;
+  /** One event per analysis hop from the shared mic (audio-clock timed). */
+  function onPitch(e: PitchEvent) {
+    const dt = lastTimeRef.current == null ? 0.02 : Math.min(0.15, Math.max(0.001, e.time - lastTimeRef.current));
+    lastTimeRef.current = e.time;
 
     // mic level (RMS)
-    const buf = new Float32Array(an.fftSize);
-    an.getFloatTimeDomainData(buf);
-    let rms = 0;
-    for (let i = 0; i < buf.length; i++) rms += buf[i] * buf[i];
-    rms = Math.sqrt(rms / buf.length);
-    setLevel(Math.min(1, rms * 8));
-
-    // pitch via YIN
-    const raw = detectPitchHzYIN(an, 30, 900, 0.12);
-    let smooth: number | null = null;
+    setLevel(Math.min(1, e.level * 8));
 
-    if (raw && isFinite(raw)) {
+    let smooth: number | null = null;
+    if (e.hz != null && isFinite(e.hz)) {
       // One-Euro smoothing directly on Hz (adaptive to motion)
-      smooth = euroRef.current.filter(raw, dt);
-    } else {
+      smooth = euroRef.current.filter(e.hz, dt);
+    } else if (smoothRef.current != null) {
       // gentle decay to null when no pitch
-      if (hz != null) {
-        const k = 1 - Math.exp(-dt / 0.25); // ~250ms decay time
-        const next = hz + (0 - hz) * k;
-        smooth = Math.abs(next) < 1e-3 ? null : next;
-      } else {
-        smooth = null;
-      }
+      const k = 1 - Math.exp(-dt / 0.25); // ~250ms decay time
+      const next = smoothRef.current + (0 - smoothRef.current) * k;
+      smooth = Math.abs(next) < 1e-3 ? null : next;
     }
+    smoothRef.current = smooth;
 
     // throttle UI updates
+    const now = e.time * 1000;
     if (now - lastReportRef.current >= 60) {
       lastReportRef.current = now;
-      setHz(smooth ?? null);
+      setHz(smooth);
     }
-
-    rafRef.current = requestAnimationFrame(tick);
   }
 
   return (
@@ -142,6 +132,9 @@ export default function ChromaticTunerModule() {
           />
           <span>Listen</span>
         </label>
+        <button className="icon-btn" style={{ marginLeft: 10 }} onClick={() => setOpenSettings(true)} title="Settings" aria-label="Open settings">
+          ⚙️
+        </button>
       </div>
 
       {/* Centered tuner */}
@@ -159,6 +152,45 @@ export default function ChromaticTunerModule() {
       <p className="muted centered" style={{ marginTop: 8 }}>
         The tuner shows how close the incoming sound is to the nearest equal-tempered pitch.
       </p>
+
+      <SettingsDialog title="Tuner Settings" open={openSettings} onClose={() => setOpenSettings(false)}>
+        <div className="settings-grid">
+          <section className="settings-section">
+            <h4>Pitch detection</h4>
+            <div className="row" style={{ gap: 12, flexWrap: "wrap" }}>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Algorithm</span>
+                <select className="select" value={detector} onChange={(e) => setDetector(e.target.value as DetectorId)}>
+                  {DETECTOR_IDS.map((id) => <option key={id} value={id}>{DETECTORS[id].label}</option>)}
+                </select>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Range</span>
+                <select className="select" value={maxHz} onChange={(e) => setMaxHz(Number(e.target.value))}>
+                  {RANGES.map((r) => <option key={r.maxHz} value={r.maxHz}>{r.label}</option>)}
+                </select>
+              </label>
+            </div>
+            <p className="muted" style={{ marginTop: 6 }}>
+              YIN is steadiest on low and harmonic-rich sounds (voice, bass, guitar). McLeod (MPM) follows
+              high, pure tones such as whistles and flutes more reliably.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
+          <MicSettings />
+        </div>
+      </SettingsDialog>
     </div>
   );
 }
+
+export const MODULE = defineModule({
+  key: "tuner",
+  title: "Chromatic Tuner",
+  icon: "🎚️",
+  storagePrefix: "tuner.",
+  singleton: true,
+  component: ChromaticTunerModule,
+});
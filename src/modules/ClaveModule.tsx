@@ -1,7 +1,13 @@
 // src/modules/ClaveModule.tsx
 import React from "react";
 import { getAudioContext } from "../utils/audio";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, arrayOf, boolean, intIn, oneOf, usePersistentState } from "../utils/persist";
+import { ShareFields } from "../utils/share";
+import { followSchema, nextDownbeat, transport, useRhythmTile, useTransport } from "../utils/transport";
+import { defineCommand, useCommand } from "../utils/shortcuts";
 import "../styles/clave.css";
+import { defineModule } from "./registry";
 
 /**
  * 12-step sequencer with metronome-defined beat.
@@ -17,6 +23,24 @@ type Subdiv = 2 | 3 | 4;
 const MIN_BPM = 20;
 const MAX_BPM = 300;
 
+const STEPS: Schema<boolean[]> = {
+  key: "seq12.steps",
+  version: 1,
+  perTile: true,
+  fallback: new Array(12).fill(false), // default: empty pattern
+  parse: (d) => { const a = arrayOf(boolean)(d); return a?.length === 12 ? a : undefined; },
+};
+const EVERY_N: Schema<Subdiv> = { key: "seq12.N", version: 1, perTile: true, fallback: 3, parse: oneOf<Subdiv>([2, 3, 4]) };
+const BPM: Schema<number> = { key: "seq12.bpm", version: 1, perTile: true, fallback: 120, parse: intIn(MIN_BPM, MAX_BPM) };
+
+const FOLLOW = followSchema("seq12");
+
+const CMD_TOGGLE = defineCommand({ id: "clave.toggle", group: "Clave", title: "Start/stop clave", keys: [] });
+const CMD_TAP = defineCommand({ id: "clave.tap", group: "Clave", title: "Tap tempo", keys: [] });
+
+/** Settings carried by share links (see utils/share). */
+const SHARE_FIELDS: ShareFields = { steps: STEPS, every: EVERY_N, bpm: BPM };
+
 // Tap tempo
 const TAP_RESET_MS = 1200;
 const TAP_MIN_S = 0.18;
@@ -28,47 +52,38 @@ function clamp(n: number, lo: number, hi: number) {
 
 export default function ClaveModule() {
   // 12-step on/off pattern
-  const [steps, setSteps] = React.useState<boolean[]>(() => {
-    try {
-      const raw = localStorage.getItem("seq12.steps");
-      if (raw) {
-        const arr = JSON.parse(raw);
-        if (Array.isArray(arr) && arr.length === 12) return arr.map(Boolean);
-      }
-    } catch {}
-    // default: empty pattern
-    return new Array(12).fill(false);
-  });
+  const [steps, setSteps] = usePersistentState(STEPS);
   // ref so scheduler always uses latest pattern without restart
   const stepsRef = React.useRef<boolean[]>(steps);
   React.useEffect(() => { stepsRef.current = steps; }, [steps]);
 
-  // Transport
+  // Own transport (used when not following the shared one)
   const [running, setRunning] = React.useState(false);
 
   // Subdivision: metronome ticks every N steps (2,3,4)
-  const [everyN, setEveryN] = React.useState<Subdiv>(() => {
-    const raw = Number(localStorage.getItem("seq12.N") ?? 3);
-    return raw === 2 || raw === 3 || raw === 4 ? (raw as Subdiv) : 3;
-  });
+  const [everyN, setEveryN] = usePersistentState(EVERY_N);
 
   // BPM = metronome speed (constant across N)
-  const [bpm, setBpm] = React.useState<number>(() => {
-    const s = localStorage.getItem("seq12.bpm");
-    const v = s ? Number(s) : 120;
-    return clamp(v, MIN_BPM, MAX_BPM);
-  });
+  const [bpm, setBpm] = usePersistentState(BPM);
+
+  // shared transport: when followed it supplies tempo, start/stop and the "1"
+  const [follow, setFollow] = usePersistentState(FOLLOW);
+  const shared = useTransport();
+  const tempo = follow ? shared.bpm : bpm;
+  const active = follow ? shared.playing : running;
+
   // clearable input UX
-  const [bpmInput, setBpmInput] = React.useState<string>(() =>
-    String(clamp(Number(localStorage.getItem("seq12.bpm") ?? 120), MIN_BPM, MAX_BPM))
-  );
+  const [bpmInput, setBpmInput] = React.useState<string>(() => String(tempo));
+  React.useEffect(() => { setBpmInput(String(tempo)); }, [tempo]);
 
-  React.useEffect(() => { try { localStorage.setItem("seq12.steps", JSON.stringify(steps)); } catch {} }, [steps]);
-  React.useEffect(() => { try { localStorage.setItem("seq12.N", String(everyN)); } catch {} }, [everyN]);
-  React.useEffect(() => { try { localStorage.setItem("seq12.bpm", String(bpm)); } catch {} }, [bpm]);
+  // practice log: one session per start → stop
+  const practice = usePracticeSession("clave");
+  React.useEffect(() => {
+    active ? practice.begin(`${tempo} BPM, click every ${everyN}`) : practice.end();
+  }, [active, tempo, everyN, practice]);
 
   // ===== Timing derived from BPM and N =====
-  const spStep = React.useMemo(() => (60 / bpm) / everyN, [bpm, everyN]);
+  const spStep = React.useMemo(() => (60 / tempo) / everyN, [tempo, everyN]);
 
   // ===== Scheduler =====
   const schedulerRef = React.useRef<number | null>(null);
@@ -78,13 +93,26 @@ export default function ClaveModule() {
   // Playhead indicator
   const [activeStep, setActiveStep] = React.useState<number>(-1);
 
+  // (Re)start on play and re-align cleanly on BPM/subdivision change. Following
+  // the transport, the 12-step bar starts on its next "1".
   React.useEffect(() => {
-    // Re-align cleanly on BPM/subdivision change
-    if (!running) return;
-    stop();
-    start();
+    if (!active) return;
+    const ctx = getAudioContext();
+    if (ctx.state === "suspended") ctx.resume().catch(() => {});
+    const startAt = follow && shared.anchor != null
+      ? nextDownbeat(shared.anchor, 12 * spStep, ctx.currentTime + 0.02)
+      : ctx.currentTime + 0.06;
+    stepIndexRef.current = 0;       // start bar on downbeat
+    nextStepTimeRef.current = startAt;
+    setActiveStep(11);              // so first visible change is step 0
+    scheduleAhead();
+    return () => {
+      if (schedulerRef.current != null) clearTimeout(schedulerRef.current);
+      schedulerRef.current = null;
+      setActiveStep(-1);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [spStep]);
+  }, [active, follow, shared.anchor, spStep]);
 
   function toggleStep(i: number) {
     setSteps(prev => {
@@ -170,24 +198,20 @@ export default function ClaveModule() {
     schedulerRef.current = window.setTimeout(scheduleAhead, 25);
   }
 
-  function start() {
-    const ctx = getAudioContext();
-    if (ctx.state === "suspended") ctx.resume().catch(() => {});
-    const startAt = ctx.currentTime + 0.06;
-    stepIndexRef.current = 0;       // start bar on downbeat
-    nextStepTimeRef.current = startAt;
-    setActiveStep(11);              // so first visible change is step 0
-    scheduleAhead();
-    setRunning(true);
+  // following: drives the shared transport (every following tile); otherwise just this one
+  function toggle() {
+    follow ? transport.toggle() : setRunning((r) => !r);
   }
 
-  function stop() {
-    if (schedulerRef.current != null) clearTimeout(schedulerRef.current);
-    schedulerRef.current = null;
+  function changeFollow(next: boolean) {
     setRunning(false);
-    setActiveStep(-1);
+    setFollow(next);
+    // a stopped transport takes this tile's tempo, so it keeps sounding the same
+    if (next && !shared.playing) transport.setBpm(bpm);
   }
-  React.useEffect(() => () => stop(), []);
+
+  useCommand(CMD_TOGGLE, toggle);
+  useRhythmTile(follow, toggle);
 
   /* ---------- Tap & BPM input ---------- */
 
@@ -211,8 +235,7 @@ export default function ClaveModule() {
     const dev = Math.abs(delta - avg) / Math.max(0.001, avg);
 
     if (dev > 0.35) {
-      const snapped = clamp(Math.round(60 / delta), MIN_BPM, MAX_BPM);
-      setBpm(snapped); setBpmInput(String(snapped));
+      changeTempo(60 / delta);
       tapsRef.current = [delta];
       return;
     }
@@ -225,18 +248,23 @@ export default function ClaveModule() {
     let wavg = 0;
     for (let i=0;i<buf.length;i++) wavg += buf[buf.length-1-i] * norm[i];
 
-    const tapped = clamp(Math.round(60 / wavg), MIN_BPM, MAX_BPM);
-    setBpm(tapped); setBpmInput(String(tapped));
+    changeTempo(60 / wavg);
   }
 
-  function commitBpm() {
-    const n = Number(bpmInput);
-    if (!Number.isFinite(n)) { setBpmInput(String(bpm)); return; }
+  useCommand(CMD_TAP, tap);
+
+  function changeTempo(n: number) {
     const clamped = clamp(Math.round(n), MIN_BPM, MAX_BPM);
-    setBpm(clamped);
+    follow ? transport.setBpm(clamped) : setBpm(clamped);
     setBpmInput(String(clamped));
   }
 
+  function commitBpm() {
+    const n = Number(bpmInput);
+    if (bpmInput === "" || !Number.isFinite(n)) { setBpmInput(String(tempo)); return; }
+    changeTempo(n);
+  }
+
   /* ---------- UI helpers ---------- */
   function meterLabel(n: Subdiv) {
     return n === 2 ? "6/4" : n === 3 ? "4/4 (triplet grid)" : "3/4";
@@ -250,11 +278,11 @@ export default function ClaveModule() {
           {/* Transport */}
           <button
             className="icon-btn"
-            onClick={() => (running ? stop() : start())}
-            title={running ? "Stop" : "Start"}
-            aria-label={running ? "Stop" : "Start"}
+            onClick={toggle}
+            title={follow ? (active ? "Stop transport (Space)" : "Start transport (Space)") : (active ? "Stop" : "Start")}
+            aria-label={active ? "Stop" : "Start"}
           >
-            {running ? "⏹" : "▶"}
+            {active ? "⏹" : "▶"}
           </button>
 
           {/* BPM (metronome speed; constant across subdivision) */}
@@ -266,7 +294,7 @@ export default function ClaveModule() {
               inputMode="numeric"
               pattern="[0-9]*"
               value={bpmInput}
-              placeholder={`${bpm}`}
+              placeholder={`${tempo}`}
               onChange={(e) => {
                 const raw = e.target.value;
                 if (raw === "" || /^[0-9]{0,3}$/.test(raw)) setBpmInput(raw);
@@ -293,6 +321,11 @@ export default function ClaveModule() {
               <option value={4}>every 4th — {meterLabel(4)}</option>
             </select>
           </label>
+
+          <label className="check" title="Use the shared tempo and start/stop together with other rhythm tiles">
+            <input type="checkbox" checked={follow} onChange={(e) => changeFollow(e.target.checked)} />
+            <span>Follow transport</span>
+          </label>
         </div>
       </div>
 
@@ -307,6 +340,8 @@ export default function ClaveModule() {
               key={i}
               className={`step ${on ? "on" : "off"} ${isBeatStart ? "beat" : ""} ${isDown ? "down" : ""}`}
               title={`Step ${i + 1}${on ? " (on)" : ""}`}
+              aria-label={`Step ${i + 1}${isBeatStart ? ", beat" : ""}`}
+              aria-pressed={on}
               onClick={() => toggleStep(i)}
               style={isActive ? { boxShadow: "inset 0 0 0 3px var(--accent)" } : undefined}
             >
@@ -344,3 +379,13 @@ export default function ClaveModule() {
     </div>
   );
 }
+
+export const MODULE = defineModule({
+  key: "clave",
+  title: "Clave",
+  icon: "🪘",
+  storagePrefix: "seq12.",
+  settings: SHARE_FIELDS,
+  rhythmic: true,
+  component: ClaveModule,
+});
@@ -0,0 +1,457 @@
+// src/modules/MelodicDictationModule.tsx
+import React from "react";
+import MicAnswer from "../components/MicAnswer";
+import SettingsDialog from "../components/SettingsDialog";
+import { KEY_TONICS, SCALES, Scale } from "../data/scales";
+import { playSequence } from "../utils/audio";
+import { PC_TO_NAME, randomOf, sanitizeNoteInput, spellInterval, toPitchClass } from "../utils/music";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, boolean, intIn, oneOf, shape, usePersistentState } from "../utils/persist";
+import { defineCommand, useCommand, useKeyHint } from "../utils/shortcuts";
+import { defineModule } from "./registry";
+
+type InputMethod = "typed" | "mic";
+type SlotState = "pending" | "ok" | "err";
+
+type MelodyNote = { midi: number; pc: number; name: string; beats: number };
+
+type Melody = {
+  tonic: string;
+  scale: Scale;
+  tonicMidi: number;
+  notes: MelodyNote[];
+};
+
+type Stats = {
+  melodies: number; perfect: number; streak: number; best: number;
+  notesCorrect: number; notesTotal: number;
+};
+
+const EMPTY_STATS: Stats = { melodies: 0, perfect: 0, streak: 0, best: 0, notesCorrect: 0, notesTotal: 0 };
+
+const HOLD_MS = 350;
+
+const CMD_NEXT = defineCommand({ id: "dictation.next", group: "Melodic Dictation", title: "New melody", keys: ["n"] });
+const CMD_REPLAY = defineCommand({ id: "dictation.replay", group: "Melodic Dictation", title: "Replay melody", keys: ["r"] });
+const CMD_SETTINGS = defineCommand({ id: "dictation.settings", group: "Melodic Dictation", title: "Open/close settings", keys: ["s"] });
+const CENTS_TOL = 35;
+const RHYTHM_BEATS = [0.5, 0.5, 1, 1, 1, 1.5, 2]; // weighted toward quarters
+
+const RANGE_OPTIONS: { semis: number; label: string }[] = [
+  { semis: 7, label: "Fifth" },
+  { semis: 12, label: "Octave" },
+  { semis: 19, label: "Octave + fifth" },
+  { semis: 24, label: "Two octaves" },
+];
+const LEAP_OPTIONS: { semis: number; label: string }[] = [
+  { semis: 2, label: "Steps only" },
+  { semis: 4, label: "Up to a 3rd" },
+  { semis: 5, label: "Up to a 4th" },
+  { semis: 7, label: "Up to a 5th" },
+  { semis: 12, label: "Up to an octave" },
+];
+
+const count = intIn(0, Number.MAX_SAFE_INTEGER);
+const STATS: Schema<Stats> = {
+  key: "dictation.stats.v1",
+  version: 1,
+  kind: "data",
+  fallback: EMPTY_STATS,
+  parse: shape<Stats>({
+    melodies: count, perfect: count, streak: count, best: count, notesCorrect: count, notesTotal: count,
+  }, EMPTY_STATS),
+};
+const KEY: Schema<string> = { key: "dictation.key.v1", version: 1, fallback: "C", parse: oneOf(["random", ...KEY_TONICS]) };
+const SCALE: Schema<string> = { key: "dictation.scale.v1", version: 1, fallback: "major", parse: oneOf(SCALES.map((s) => s.id)) };
+const LENGTH: Schema<number> = { key: "dictation.length.v1", version: 1, fallback: 4, parse: intIn(3, 8) };
+const RANGE: Schema<number> = { key: "dictation.range.v1", version: 1, fallback: 12, parse: oneOf(RANGE_OPTIONS.map((o) => o.semis)) };
+const LEAP: Schema<number> = { key: "dictation.maxLeap.v1", version: 1, fallback: 4, parse: oneOf(LEAP_OPTIONS.map((o) => o.semis)) };
+const RHYTHM: Schema<boolean> = { key: "dictation.rhythm.v1", version: 1, fallback: false, parse: boolean };
+const TEMPO: Schema<number> = { key: "dictation.bpm.v1", version: 1, fallback: 90, parse: intIn(40, 200) };
+const OCTAVE: Schema<number> = { key: "dictation.octave.v1", version: 1, fallback: 4, parse: intIn(2, 5) };
+const START_TONIC: Schema<boolean> = { key: "dictation.startOnTonic.v1", version: 1, fallback: true, parse: boolean };
+const REFERENCE: Schema<boolean> = { key: "dictation.reference.v1", version: 1, fallback: true, parse: boolean };
+const INPUT: Schema<InputMethod> = { key: "dictation.input.v1", version: 1, fallback: "typed", parse: oneOf<InputMethod>(["typed", "mic"]) };
+
+type MelodyConfig = {
+  key: string; scaleId: string; length: number; range: number;
+  maxLeap: number; rhythm: boolean; octave: number; startOnTonic: boolean;
+};
+
+/**
+ * Random melody on the chosen scale. Notes stay within [tonic, tonic + range]
+ * and move by at most `maxLeap` semitones; when no scale tone fits the leap
+ * (e.g. steps-only on a pentatonic scale), the nearest tones are used instead.
+ */
+function makeMelody(cfg: MelodyConfig): Melody {
+  const tonic = cfg.key === "random" ? randomOf(KEY_TONICS) : cfg.key;
+  const scale = SCALES.find((s) => s.id === cfg.scaleId) ?? SCALES[0];
+  const tonicPc = toPitchClass(tonic) ?? 0;
+  const tonicMidi = (cfg.octave + 1) * 12 + tonicPc; // C4=60
+
+  const pool: Omit<MelodyNote, "beats">[] = [];
+  for (let oct = 0; oct * 12 <= cfg.range; oct++) {
+    scale.degrees.forEach((d) => {
+      const semis = oct * 12 + d.semitones;
+      if (semis > cfg.range) return;
+      const name = spellInterval(tonic, d.number, d.semitones) ?? PC_TO_NAME[(tonicPc + d.semitones) % 12];
+      pool.push({ midi: tonicMidi + semis, pc: (tonicPc + d.semitones) % 12, name });
+    });
+  }
+
+  const beats = () => (cfg.rhythm ? randomOf(RHYTHM_BEATS) : 1);
+  const notes: MelodyNote[] = [];
+  let prev = cfg.startOnTonic ? pool[0] : randomOf(pool);
+  notes.push({ ...prev, beats: beats() });
+  while (notes.length < cfg.length) {
+    const others = pool.filter((n) => n.midi !== prev.midi);
+    let options = others.filter((n) => Math.abs(n.midi - prev.midi) <= cfg.maxLeap);
+    if (!options.length) {
+      const nearest = Math.min(...others.map((n) => Math.abs(n.midi - prev.midi)));
+      options = others.filter((n) => Math.abs(n.midi - prev.midi) === nearest);
+    }
+    prev = randomOf(options);
+    notes.push({ ...prev, beats: beats() });
+  }
+  // let the last note ring
+  notes[notes.length - 1].beats = Math.max(notes[notes.length - 1].beats, cfg.rhythm ? 1 : 1.5);
+
+  return { tonic, scale, tonicMidi, notes };
+}
+
+export default function MelodicDictationModule() {
+  const [key, setKey] = usePersistentState(KEY);
+  const [scaleId, setScaleId] = usePersistentState(SCALE);
+  const [length, setLength] = usePersistentState(LENGTH);
+  const [range, setRange] = usePersistentState(RANGE);
+  const [maxLeap, setMaxLeap] = usePersistentState(LEAP);
+  const [rhythm, setRhythm] = usePersistentState(RHYTHM);
+  const [bpm, setBpm] = usePersistentState(TEMPO);
+  const [octave, setOctave] = usePersistentState(OCTAVE);
+  const [startOnTonic, setStartOnTonic] = usePersistentState(START_TONIC);
+  const [reference, setReference] = usePersistentState(REFERENCE);
+  const [method, setMethod] = usePersistentState(INPUT);
+
+  const [stats, setStats] = usePersistentState(STATS);
+
+  const [melody, setMelody] = React.useState<Melody | null>(null);
+  const [slots, setSlots] = React.useState<SlotState[]>([]);
+  const [answers, setAnswers] = React.useState<string[]>([]);
+  const [input, setInput] = React.useState("");
+  const [heard, setHeard] = React.useState<string | null>(null);
+  const [playing, setPlaying] = React.useState(false);
+  const [openSettings, setOpenSettings] = React.useState(false);
+
+  const stopRef = React.useRef<null | (() => void)>(null);
+  const practice = usePracticeSession("dictation");
+  const playTimerRef = React.useRef<number | null>(null);
+
+  const current = slots.indexOf("pending"); // -1 once the melody is done
+  const done = melody != null && current === -1;
+
+  function stopAudio() {
+    try { stopRef.current?.(); } catch {}
+    stopRef.current = null;
+    if (playTimerRef.current != null) window.clearTimeout(playTimerRef.current);
+    playTimerRef.current = null;
+    setPlaying(false);
+  }
+
+  function play(m: Melody | null = melody) {
+    if (!m) return;
+    stopAudio();
+    const beatMs = 60000 / bpm;
+    const events: { midi: number | null; ms: number }[] = [];
+    if (reference) events.push({ midi: m.tonicMidi, ms: beatMs * 2 }, { midi: null, ms: beatMs });
+    m.notes.forEach((n) => events.push({ midi: n.midi, ms: n.beats * beatMs }));
+    try { stopRef.current = playSequence(events, "triangle", -8); } catch {}
+    setPlaying(true);
+    const totalMs = events.reduce((a, e) => a + e.ms, 0) + 150;
+    playTimerRef.current = window.setTimeout(() => { playTimerRef.current = null; setPlaying(false); }, totalMs);
+  }
+  React.useEffect(() => stopAudio, []);
+
+  function startNewMelody() {
+    const m = makeMelody({ key, scaleId, length, range, maxLeap, rhythm, octave, startOnTonic });
+    setMelody(m);
+    setSlots(m.notes.map(() => "pending"));
+    setAnswers(m.notes.map(() => ""));
+    setInput("");
+    setHeard(null);
+    play(m);
+  }
+
+  React.useEffect(() => { startNewMelody(); }, [key, scaleId, length, range, maxLeap, rhythm, octave, startOnTonic]);
+
+  /** Resolve the current note; records the melody in stats once the last note is in. */
+  function resolveNote(ok: boolean, answer: string) {
+    if (!melody || current === -1) return;
+    const nextSlots = slots.slice();
+    nextSlots[current] = ok ? "ok" : "err";
+    setSlots(nextSlots);
+    setAnswers((prev) => { const a = prev.slice(); a[current] = answer; return a; });
+    setInput("");
+    practice.count(ok, `${melody.tonic} ${melody.scale.name.toLowerCase()}`);
+
+    if (!nextSlots.includes("pending")) {
+      const correct = nextSlots.filter((s) => s === "ok").length;
+      const perfect = correct === nextSlots.length;
+      setStats((s) => {
+        const streak = perfect ? s.streak + 1 : 0;
+        return {
+          melodies: s.melodies + 1,
+          perfect: s.perfect + (perfect ? 1 : 0),
+          streak,
+          best: Math.max(s.best, streak),
+          notesCorrect: s.notesCorrect + correct,
+          notesTotal: s.notesTotal + nextSlots.length,
+        };
+      });
+    }
+  }
+
+  function submitTyped() {
+    if (!melody || current === -1) return;
+    const pc = toPitchClass(input);
+    if (pc == null) return;
+    resolveNote(pc === melody.notes[current].pc, input);
+  }
+
+  function handleMicCorrect() {
+    if (!melody || current === -1) return;
+    resolveNote(true, melody.notes[current].name);
+  }
+
+  const accuracy = stats.notesTotal === 0 ? 100 : Math.round((stats.notesCorrect / stats.notesTotal) * 100);
+  const scale = SCALES.find((s) => s.id === scaleId) ?? SCALES[0];
+
+  useCommand(CMD_NEXT, startNewMelody);
+  useCommand(CMD_REPLAY, () => play());
+  useCommand(CMD_SETTINGS, () => setOpenSettings((v) => !v));
+  const nextHint = useKeyHint(CMD_NEXT);
+  const replayHint = useKeyHint(CMD_REPLAY);
+
+  return (
+    <div className="panel">
+      <div className="row" style={{ justifyContent: "flex-end", marginBottom: 6 }}>
+        <button type="button" className="icon-btn" aria-label="Open settings" title="Settings" onClick={() => setOpenSettings(true)}>
+          ⚙️
+        </button>
+      </div>
+
+      <div className="controls row stats-bar">
+        <span className="badge">Melodies: {stats.melodies}</span>
+        <span className="badge">Perfect: {stats.perfect}</span>
+        <span className="badge">Notes: {accuracy}%</span>
+        <span className="badge">Streak: {stats.streak}</span>
+        <span className="badge">Best: {stats.best}</span>
+      </div>
+
+      {melody && (
+        <>
+          <div className="centered" style={{ marginTop: 14 }}>
+            <div className="hero-label">Key</div>
+            <div className="hero-sub">
+              <strong>{melody.tonic} {melody.scale.name.toLowerCase()}</strong>
+              <span className="muted"> · {melody.notes.length} notes</span>
+            </div>
+          </div>
+
+          <div className="dictation-notes" aria-live="polite">
+            {melody.notes.map((n, i) => {
+              const state = slots[i];
+              const label = state === "pending" ? "?" : n.name;
+              return (
+                <div
+                  key={i}
+                  className={`dictation-note ${state === "pending" ? "" : state} ${i === current ? "current" : ""}`}
+                  title={state === "err" && answers[i] ? `You answered ${answers[i]}` : undefined}
+                >
+                  <span className="dictation-note-name">{label}</span>
+                  {state === "err" && answers[i] && <span className="dictation-note-sub">{answers[i]}</span>}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="answer-row">
+            <button type="button" className="button" onClick={() => play()} title={replayHint ? `Replay (${replayHint})` : "Replay"}>↻ Replay</button>
+            <button type="button" className="button" onClick={startNewMelody}>{nextHint ? `Next (${nextHint})` : "Next"}</button>
+          </div>
+
+          {done ? (
+            <p className="centered" style={{ marginTop: 8 }}>
+              <span className={`result ${slots.every((s) => s === "ok") ? "ok" : "err"}`}>
+                {slots.filter((s) => s === "ok").length}/{slots.length} notes correct
+              </span>
+            </p>
+          ) : method === "typed" ? (
+            <div className="answer-row">
+              <input
+                className="input"
+                placeholder={`Note ${current + 1} (e.g., ${melody.notes[0].name})`}
+                value={input}
+                onChange={(e) => setInput(sanitizeNoteInput(e.target.value))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") { e.preventDefault(); submitTyped(); }
+                }}
+                data-shortcuts={`${CMD_NEXT.id} ${CMD_REPLAY.id} ${CMD_SETTINGS.id}`}
+                autoCapitalize="characters"
+                autoCorrect="off"
+                maxLength={3}
+                inputMode="text"
+              />
+              <button type="button" className="button" onClick={submitTyped} disabled={!input}>Check</button>
+              <button type="button" className="button" onClick={() => resolveNote(false, "")}>Skip note</button>
+            </div>
+          ) : (
+            <>
+              <MicAnswer
+                enabled={!done}
+                suspend={playing}
+                targetPc={melody.notes[current].pc}
+                onHeard={(pc) => setHeard(PC_TO_NAME[pc])}
+                onCorrect={handleMicCorrect}
+                holdMs={HOLD_MS}
+                centsTolerance={CENTS_TOL}
+              />
+              <div className="answer-row">
+                <span className="muted">
+                  {playing ? "Listening after playback…" : `Sing or play note ${current + 1}`}
+                  {heard && !playing ? ` · hearing ${heard}` : ""}
+                </span>
+                <button type="button" className="button" onClick={() => resolveNote(false, heard ?? "")}>Skip note</button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      <SettingsDialog title="Dictation Settings" open={openSettings} onClose={() => setOpenSettings(false)}>
+        <div className="settings-grid">
+          <section className="settings-section">
+            <h4>Key &amp; scale</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Tonic</span>
+                <select className="select" value={key} onChange={(e) => setKey(e.target.value)}>
+                  <option value="random">Random</option>
+                  {KEY_TONICS.map((t) => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Scale</span>
+                <select className="select" value={scale.id} onChange={(e) => setScaleId(e.target.value)}>
+                  {SCALES.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Tonic octave</span>
+                <select className="select" value={octave} onChange={(e) => setOctave(Number(e.target.value))}>
+                  {[2, 3, 4, 5].map((o) => <option key={o} value={o}>{o}</option>)}
+                </select>
+              </label>
+            </div>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Difficulty</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Notes</span>
+                <select className="select" value={length} onChange={(e) => setLength(Number(e.target.value))}>
+                  {[3, 4, 5, 6, 7, 8].map((n) => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Range</span>
+                <select className="select" value={range} onChange={(e) => setRange(Number(e.target.value))}>
+                  {RANGE_OPTIONS.map((o) => <option key={o.semis} value={o.semis}>{o.label}</option>)}
+                </select>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Max leap</span>
+                <select className="select" value={maxLeap} onChange={(e) => setMaxLeap(Number(e.target.value))}>
+                  {LEAP_OPTIONS.map((o) => <option key={o.semis} value={o.semis}>{o.label}</option>)}
+                </select>
+              </label>
+            </div>
+            <div className="row" style={{ flexWrap: "wrap", marginTop: 6 }}>
+              <label className="check" style={{ gap: 8 }}>
+                <input type="checkbox" checked={startOnTonic} onChange={(e) => setStartOnTonic(e.target.checked)} />
+                <span>Start on the tonic</span>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <input type="checkbox" checked={rhythm} onChange={(e) => setRhythm(e.target.checked)} />
+                <span>Varied rhythm</span>
+              </label>
+            </div>
+            <p className="muted" style={{ marginTop: 6 }}>
+              Rhythm only changes playback; answers are graded on pitch.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Playback</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              <label className="check" style={{ gap: 8 }}>
+                <span>Tempo</span>
+                <input
+                  type="range"
+                  min={40}
+                  max={200}
+                  step={5}
+                  value={bpm}
+                  onChange={(e) => setBpm(Number(e.target.value))}
+                />
+                <span className="badge">{bpm} BPM</span>
+              </label>
+              <label className="check" style={{ gap: 8 }}>
+                <input type="checkbox" checked={reference} onChange={(e) => setReference(e.target.checked)} />
+                <span>Play the tonic first</span>
+              </label>
+            </div>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <h4>Answer with</h4>
+            <div className="row" style={{ flexWrap: "wrap" }}>
+              {(["typed", "mic"] as InputMethod[]).map((opt) => (
+                <label key={opt} className="check" style={{ gap: 8 }}>
+                  <input type="radio" name="dictation-input" checked={method === opt} onChange={() => setMethod(opt)} />
+                  <span>{opt === "typed" ? "Typed note names" : "Microphone (note by note)"}</span>
+                </label>
+              ))}
+            </div>
+            <p className="muted" style={{ marginTop: 6 }}>
+              Enharmonic spellings are accepted; any octave counts.
+            </p>
+          </section>
+
+          <div className="settings-divider" />
+
+          <section className="settings-section">
+            <button type="button" className="button small" onClick={() => setStats(EMPTY_STATS)}>
+              Reset statistics
+            </button>
+          </section>
+        </div>
+      </SettingsDialog>
+    </div>
+  );
+}
+
+export const MODULE = defineModule({
+  key: "dictation",
+  title: "Melodic Dictation",
+  icon: "🎼",
+  storagePrefix: "dictation.",
+  singleton: true,
+  component: MelodicDictationModule,
+});
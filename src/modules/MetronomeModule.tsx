@@ -1,12 +1,37 @@
 // src/modules/MetronomeModule.tsx
 import React from "react";
 import { getAudioContext } from "../utils/audio";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, intIn, oneOf, shape, usePersistentState } from "../utils/persist";
+import { ShareFields } from "../utils/share";
+import { followSchema, nextDownbeat, transport, useRhythmTile, useTransport } from "../utils/transport";
+import { defineCommand, useCommand, useKeyHint } from "../utils/shortcuts";
+import { defineModule } from "./registry";
 
 type TimeSig = { num: number; den: 2 | 4 | 8 | 16 };
 
 const MIN_BPM = 30;
 const MAX_BPM = 300;
 
+// per tile, so several metronomes keep their own tempo and meter
+const BPM: Schema<number> = { key: "metro.bpm", version: 1, perTile: true, fallback: 100, parse: intIn(MIN_BPM, MAX_BPM) };
+const DEFAULT_SIG: TimeSig = { num: 4, den: 4 };
+const SIG: Schema<TimeSig> = {
+  key: "metro.sig",
+  version: 1,
+  perTile: true,
+  fallback: DEFAULT_SIG,
+  parse: shape<TimeSig>({ num: intIn(1, 12), den: oneOf<TimeSig["den"]>([2, 4, 8, 16]) }, DEFAULT_SIG),
+};
+
+const FOLLOW = followSchema("metro");
+
+const CMD_TAP = defineCommand({ id: "metro.tap", group: "Metronome", title: "Tap tempo", keys: ["t"] });
+const CMD_TOGGLE = defineCommand({ id: "metro.toggle", group: "Metronome", title: "Start/stop metronome", keys: [] });
+
+/** Settings carried by share links (see utils/share). */
+const SHARE_FIELDS: ShareFields = { bpm: BPM, sig: SIG };
+
 // Tap-tempo tuning
 const TAP_RESET_MS = 1200;
 const TAP_MIN_S = 0.18;
@@ -14,62 +39,31 @@ const TAP_MAX_S = 2.5;
 const TAP_DEVIATE_FRAC = 0.35;
 const TAP_WINDOW = 4;
 
-// ---- Global downbeat sync (shared across module instances) -------------------
-type GlobalSync = {
-  anchor: number | null; // AudioContext time of a reference downbeat "1"
-  barLen: number;        // seconds per bar (based on the *owner* instance)
-  ownerId: string | null;
-};
-function getGlobalSync(): GlobalSync {
-  const w = window as any;
-  if (!w.__metroSync) {
-    w.__metroSync = { anchor: null, barLen: 0, ownerId: null } as GlobalSync;
-  }
-  return w.__metroSync as GlobalSync;
-}
-function makeInstanceId() {
-  return `metro-${Math.random().toString(36).slice(2)}-${Date.now()}`;
-}
-function nextGlobalDownbeat(ctxTime: number): number | null {
-  const s = getGlobalSync();
-  if (s.anchor == null || s.barLen <= 0) return null;
-  const n = Math.ceil((ctxTime - s.anchor) / s.barLen);
-  return s.anchor + n * s.barLen;
-}
-// -----------------------------------------------------------------------------
-
 export default function MetronomeModule() {
-  const instanceIdRef = React.useRef<string>(makeInstanceId());
-
+  // own start/stop (only used when not following the transport)
   const [running, setRunning] = React.useState(false);
 
-  const [bpm, setBpm] = React.useState<number>(() => {
-    const s = localStorage.getItem("metro.bpm");
-    const v = s ? Number(s) : 100;
-    return clamp(v, MIN_BPM, MAX_BPM);
-  });
-  // Separate input string so the user can clear it while typing
-  const [bpmInput, setBpmInput] = React.useState<string>(() =>
-    String(clamp(Number(localStorage.getItem("metro.bpm") ?? 100), MIN_BPM, MAX_BPM))
-  );
+  const [bpm, setBpm] = usePersistentState(BPM);
+  const [sig, setSig] = usePersistentState(SIG);
+
+  // shared transport: when followed it supplies tempo, start/stop and the "1"
+  const [follow, setFollow] = usePersistentState(FOLLOW);
+  const shared = useTransport();
+  const tempo = follow ? shared.bpm : bpm;
+  const active = follow ? shared.playing : running;
 
-  const [sig, setSig] = React.useState<TimeSig>(() => {
-    try {
-      const raw = localStorage.getItem("metro.sig");
-      if (raw) return JSON.parse(raw) as TimeSig;
-    } catch {}
-    return { num: 4, den: 4 };
-  });
+  // Separate input string so the user can clear it while typing
+  const [bpmInput, setBpmInput] = React.useState<string>(() => String(tempo));
+  React.useEffect(() => { setBpmInput(String(tempo)); }, [tempo]);
 
   // drives the dot highlight
   const [activeBeat, setActiveBeat] = React.useState<number>(-1);
 
+  // practice log: one session per start → stop
+  const practice = usePracticeSession("metro");
   React.useEffect(() => {
-    try { localStorage.setItem("metro.bpm", String(bpm)); } catch {}
-  }, [bpm]);
-  React.useEffect(() => {
-    try { localStorage.setItem("metro.sig", JSON.stringify(sig)); } catch {}
-  }, [sig]);
+    active ? practice.begin(`${tempo} BPM ${sig.num}/${sig.den}`) : practice.end();
+  }, [active, tempo, sig, practice]);
 
   // scheduler
   const schedulerRef = React.useRef<number | null>(null);
@@ -81,20 +75,28 @@ export default function MetronomeModule() {
   const lastTapRef = React.useRef<number>(0);
 
   // seconds per beat (denominator note = beat)
-  const spb = React.useMemo(() => (60 / bpm) * (4 / sig.den), [bpm, sig.den]);
+  const spb = React.useMemo(() => (60 / tempo) * (4 / sig.den), [tempo, sig.den]);
 
-  // If we are the global owner and timing changes while running, update barLen, then realign.
+  // (Re)start the click grid whenever playback or timing changes: following tiles
+  // join on the transport's next "1" for this bar length, others start right away.
   React.useEffect(() => {
-    if (!running) return;
-    const sync = getGlobalSync();
-    if (sync.ownerId === instanceIdRef.current) {
-      sync.barLen = spb * sig.num;
-    }
-    // restart to place clicks on the new grid cleanly
-    stop(false);
-    start(false);
+    if (!active) return;
+    const ctx = getAudioContext();
+    if (ctx.state === "suspended") ctx.resume().catch(() => {});
+    const startAt = follow && shared.anchor != null
+      ? nextDownbeat(shared.anchor, spb * sig.num, ctx.currentTime + 0.02)
+      : ctx.currentTime + 0.06;
+    nextTimeRef.current = startAt;
+    beatRef.current = 0;
+    setActiveBeat(0);
+    schedulerTick();
+    return () => {
+      if (schedulerRef.current != null) clearTimeout(schedulerRef.current);
+      schedulerRef.current = null;
+      setActiveBeat(-1);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [spb, sig.num]);
+  }, [active, follow, shared.anchor, spb, sig.num]);
 
   function scheduleClick(when: number, beatIndex: number) {
     const ctx = getAudioContext();
@@ -140,52 +142,23 @@ export default function MetronomeModule() {
     schedulerRef.current = window.setTimeout(schedulerTick, 25);
   }
 
-  function start(setGlobalOwnerIfNone = true) {
-    const ctx = getAudioContext();
-    if (ctx.state === "suspended") ctx.resume().catch(() => {});
-
-    const sync = getGlobalSync();
-    const myBarLen = spb * sig.num;
-
-    // If a global anchor exists, start on next global "1".
-    // Otherwise, we become the owner and define the anchor.
-    let startAt: number;
-    if (sync.anchor != null && sync.barLen > 0) {
-      const nd = nextGlobalDownbeat(ctx.currentTime + 0.02) ?? (ctx.currentTime + 0.06);
-      startAt = nd;
-    } else {
-      startAt = ctx.currentTime + 0.06;
-      if (setGlobalOwnerIfNone) {
-        sync.anchor = startAt;
-        sync.barLen = myBarLen;
-        sync.ownerId = instanceIdRef.current;
-      }
-    }
-
-    // Initialize local scheduler aligned to a downbeat
-    nextTimeRef.current = startAt;
-    beatRef.current = 0;
-    setActiveBeat(0);
-    schedulerTick();
-    setRunning(true);
+  // following: drives the shared transport (every following tile); otherwise just this one
+  function toggle() {
+    follow ? transport.toggle() : setRunning((r) => !r);
   }
 
-  function stop(clearGlobalIfOwner = true) {
-    if (schedulerRef.current != null) clearTimeout(schedulerRef.current);
-    schedulerRef.current = null;
+  function changeFollow(next: boolean) {
     setRunning(false);
-    setActiveBeat(-1);
-
-    if (clearGlobalIfOwner) {
-      const sync = getGlobalSync();
-      if (sync.ownerId === instanceIdRef.current) {
-        sync.anchor = null;
-        sync.barLen = 0;
-        sync.ownerId = null;
-      }
-    }
+    setFollow(next);
+    // a stopped transport takes this tile's tempo, so it keeps sounding the same
+    if (next && !shared.playing) transport.setBpm(bpm);
+  }
+
+  function changeTempo(n: number) {
+    const clamped = clamp(Math.round(n), MIN_BPM, MAX_BPM);
+    follow ? transport.setBpm(clamped) : setBpm(clamped);
+    setBpmInput(String(clamped));
   }
-  React.useEffect(() => () => stop(), []);
 
   // Tap tempo (snappy)
   function tap() {
@@ -212,9 +185,7 @@ export default function MetronomeModule() {
 
     if (dev > TAP_DEVIATE_FRAC) {
       // Big change: snap immediately
-      const snappedBpm = clamp(Math.round((60 / delta) * (sig.den / 4)), MIN_BPM, MAX_BPM);
-      setBpm(snappedBpm);
-      setBpmInput(String(snappedBpm));
+      changeTempo((60 / delta) * (sig.den / 4));
       tapsRef.current = [delta];
       return;
     }
@@ -235,30 +206,19 @@ export default function MetronomeModule() {
       wavg += val * wNorm[i];
     }
 
-    const tappedBpm = clamp(Math.round((60 / wavg) * (sig.den / 4)), MIN_BPM, MAX_BPM);
-    setBpm(tappedBpm);
-    setBpmInput(String(tappedBpm));
+    changeTempo((60 / wavg) * (sig.den / 4));
   }
 
-  // keyboard: Space = start/stop, T = tap
-  React.useEffect(() => {
-    function onKey(e: KeyboardEvent) {
-      if ((e.target as HTMLElement)?.tagName?.toLowerCase() === "input") return;
-      const k = e.key.toLowerCase();
-      if (k === " ") { e.preventDefault(); running ? stop() : start(); }
-      if (k === "t") { e.preventDefault(); tap(); }
-    }
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [running]);
+  useCommand(CMD_TAP, tap);
+  useCommand(CMD_TOGGLE, toggle);
+  useRhythmTile(follow, toggle);
+  const tapHint = useKeyHint(CMD_TAP);
 
   // ---- Tempo input handlers (allow empty) ------------------------------------
   function commitBpm() {
     const n = Number(bpmInput);
-    if (!Number.isFinite(n)) { setBpmInput(String(bpm)); return; }
-    const clamped = clamp(Math.round(n), MIN_BPM, MAX_BPM);
-    setBpm(clamped);
-    setBpmInput(String(clamped));
+    if (bpmInput === "" || !Number.isFinite(n)) { setBpmInput(String(tempo)); return; }
+    changeTempo(n);
   }
   // ----------------------------------------------------------------------------
 
@@ -275,7 +235,7 @@ export default function MetronomeModule() {
               inputMode="numeric"
               pattern="[0-9]*"
               value={bpmInput}
-              placeholder={`${bpm}`}
+              placeholder={`${tempo}`}
               onChange={(e) => {
                 // allow empty or digits only
                 const raw = e.target.value;
@@ -289,15 +249,15 @@ export default function MetronomeModule() {
             {/* Single toggle transport button */}
             <button
               className="icon-btn"
-              onClick={() => (running ? stop() : start())}
-              title={running ? "Stop (Space)" : "Start (Space)"}
-              aria-label={running ? "Stop metronome" : "Start metronome"}
+              onClick={toggle}
+              title={follow ? (active ? "Stop transport (Space)" : "Start transport (Space)") : (active ? "Stop" : "Start")}
+              aria-label={active ? "Stop metronome" : "Start metronome"}
             >
-              {running ? "⏹" : "▶"}
+              {active ? "⏹" : "▶"}
             </button>
 
             {/* Big TAP button */}
-            <button className="button tap-big" onClick={tap} title="Tap tempo (T)">
+            <button className="button tap-big" onClick={tap} title={tapHint ? `Tap tempo (${tapHint})` : "Tap tempo"}>
               Tap
             </button>
           </div>
@@ -329,6 +289,16 @@ export default function MetronomeModule() {
         </div>
       </div>
 
+      <div className="row center" style={{ marginTop: 8 }}>
+        <label className="check" title="Use the shared tempo and start/stop together with other rhythm tiles">
+          <input type="checkbox" checked={follow} onChange={(e) => changeFollow(e.target.checked)} />
+          <span>Follow transport</span>
+        </label>
+      </div>
+
+      {/* Beat number (stage view only) */}
+      <div className="met-beat-number" aria-hidden>{activeBeat >= 0 ? activeBeat + 1 : "·"}</div>
+
       {/* Beat dots */}
       <div className="met-beats">
         {Array.from({ length: sig.num }).map((_, i) => (
@@ -340,7 +310,7 @@ export default function MetronomeModule() {
       </div>
 
       <p className="muted centered" style={{ marginTop: 8 }}>
-        Space = start/stop • T = tap
+        {[follow && "Space = start/stop all", tapHint && `${tapHint} = tap`].filter(Boolean).join(" • ")}
       </p>
     </div>
   );
@@ -348,3 +318,13 @@ export default function MetronomeModule() {
 
 function clamp(x: number, lo: number, hi: number) { return Math.min(hi, Math.max(lo, x)); }
 function clampInt(x: number, lo: number, hi: number) { return Math.round(clamp(x, lo, hi)); }
+
+export const MODULE = defineModule({
+  key: "metro",
+  title: "Metronome",
+  icon: "🥁",
+  storagePrefix: "metro.",
+  settings: SHARE_FIELDS,
+  rhythmic: true,
+  component: MetronomeModule,
+});
@@ -1,11 +1,28 @@
 // src/modules/PolyrhythmModule.tsx
 import React from "react";
 import { getAudioContext } from "../utils/audio";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, boolean, intIn, load, numberIn, save, usePersistentState, useTileSchema } from "../utils/persist";
+import { ShareFields } from "../utils/share";
+import { followSchema, nextDownbeat, transport, useRhythmTile, useTransport } from "../utils/transport";
+import { defineCommand, useCommand } from "../utils/shortcuts";
+import { defineModule } from "./registry";
+
+const A: Schema<number> = { key: "poly.a", version: 1, perTile: true, fallback: 5, parse: intIn(1, 32) };
+const B: Schema<number> = { key: "poly.b", version: 1, perTile: true, fallback: 7, parse: intIn(1, 32) };
+const BAR_SEC: Schema<number> = { key: "poly.barSec", version: 1, perTile: true, fallback: 1.0, parse: numberIn(0.25, 10) };
+const CLICKS: Schema<boolean> = { key: "poly.clicks", version: 1, perTile: true, fallback: true, parse: boolean };
+const CLICK_VOL: Schema<number> = { key: "poly.clickVol", version: 1, perTile: true, fallback: 70, parse: numberIn(0, 100) };
+
+const FOLLOW = followSchema("poly");
+const TRANSPORT_BEATS = 4; // following the transport, the bar is 4 beats at its tempo
+
+const CMD_TOGGLE = defineCommand({ id: "poly.toggle", group: "Polyrhythm", title: "Play/pause polyrhythm", keys: [] });
+
+/** Settings carried by share links (see utils/share). */
+const SHARE_FIELDS: ShareFields = { a: A, b: B, bar: BAR_SEC };
 
 /* ---------------- helpers ---------------- */
-function clamp(n: number, lo: number, hi: number) {
-  return Math.max(lo, Math.min(hi, n));
-}
 function isPosIntInRange(s: string, lo: number, hi: number): s is string {
   const n = Number(s);
   return Number.isInteger(n) && n >= lo && n <= hi;
@@ -70,16 +87,21 @@ function scheduleClick(ctx: AudioContext, when: number, freq: number, bus: GainN
 
 /* ---------------- module ---------------- */
 export default function PolyrhythmModule() {
+  const aSchema = useTileSchema(A);
+  const bSchema = useTileSchema(B);
+  const barSchema = useTileSchema(BAR_SEC);
+
   // String states (so you can clear inputs)
-  const [aStr, setAStr] = React.useState<string>(() => String(clamp(Number(localStorage.getItem("poly.a") ?? 5), 1, 32)));
-  const [bStr, setBStr] = React.useState<string>(() => String(clamp(Number(localStorage.getItem("poly.b") ?? 7), 1, 32)));
-  const [barStr, setBarStr] = React.useState<string>(() => {
-    const v = Number(localStorage.getItem("poly.barSec") ?? 1.0);
-    return String(clamp(Number.isFinite(v) ? v : 1.0, 0.25, 10));
-  });
+  const [aStr, setAStr] = React.useState<string>(() => String(load(aSchema)));
+  const [bStr, setBStr] = React.useState<string>(() => String(load(bSchema)));
+  const [barStr, setBarStr] = React.useState<string>(() => String(load(barSchema)));
   const [playing, setPlaying] = React.useState(false);
-  const [clicks, setClicks] = React.useState(() => (localStorage.getItem("poly.clicks") ?? "true") === "true");
-  const [clickVol, setClickVol] = React.useState(() => clamp(Number(localStorage.getItem("poly.clickVol") ?? 70), 0, 100));
+  const [clicks, setClicks] = usePersistentState(CLICKS);
+  const [clickVol, setClickVol] = usePersistentState(CLICK_VOL);
+
+  // shared transport: when followed it supplies the bar length, start/stop and the "1"
+  const [follow, setFollow] = usePersistentState(FOLLOW);
+  const shared = useTransport();
 
   // Parsed/validated values
   const aValid = isPosIntInRange(aStr, 1, 32);
@@ -88,14 +110,21 @@ export default function PolyrhythmModule() {
 
   const aCount = aValid ? Number(aStr) : null;
   const bCount = bValid ? Number(bStr) : null;
-  const barSeconds = barValid ? Number(barStr) : null;
+  const barSeconds = follow ? (TRANSPORT_BEATS * 60) / shared.bpm : barValid ? Number(barStr) : null;
+
+  const canRender = aValid && bValid && barSeconds != null;
+  const active = canRender && (follow ? shared.playing : playing);
 
   // Persist when valid (won’t block typing)
-  React.useEffect(() => { if (aValid) try { localStorage.setItem("poly.a", aStr); } catch {} }, [aValid, aStr]);
-  React.useEffect(() => { if (bValid) try { localStorage.setItem("poly.b", bStr); } catch {} }, [bValid, bStr]);
-  React.useEffect(() => { if (barValid) try { localStorage.setItem("poly.barSec", barStr); } catch {} }, [barValid, barStr]);
-  React.useEffect(() => { try { localStorage.setItem("poly.clicks", String(clicks)); } catch {} }, [clicks]);
-  React.useEffect(() => { try { localStorage.setItem("poly.clickVol", String(clickVol)); } catch {} }, [clickVol]);
+  React.useEffect(() => { if (aValid) save(aSchema, Number(aStr)); }, [aSchema, aValid, aStr]);
+  React.useEffect(() => { if (bValid) save(bSchema, Number(bStr)); }, [bSchema, bValid, bStr]);
+  React.useEffect(() => { if (barValid) save(barSchema, Number(barStr)); }, [barSchema, barValid, barStr]);
+
+  // practice log: one session per start → stop
+  const practice = usePracticeSession("poly");
+  React.useEffect(() => {
+    active ? practice.begin(`${aCount}:${bCount} over ${barSeconds?.toFixed(2)}s`) : practice.end();
+  }, [active, aCount, bCount, barSeconds, practice]);
 
   // Stop as soon as the bar duration is being edited (or becomes invalid)
   React.useEffect(() => {
@@ -141,35 +170,48 @@ export default function PolyrhythmModule() {
     }
   }
 
-  function resetAnchors() {
-    const nowHr = performance.now();
+  // Start a fresh bar at `startAt` (audio time; default now)
+  function resetAnchors(startAt?: number) {
     startAudioIfNeeded();
     const ctx = ctxRef.current!;
     const nowAu = ctx.currentTime;
-    anchorHighResRef.current = nowHr;
-    anchorAudioRef.current = nowAu;
+    const at = startAt ?? nowAu;
+    anchorHighResRef.current = performance.now() + (at - nowAu) * 1000;
+    anchorAudioRef.current = at;
     nextIndexARef.current = 0;
     nextIndexBRef.current = 0;
   }
 
-  function start() {
-    if (playing || !aValid || !bValid || !barValid) return;
-    startAudioIfNeeded();
-    resetAnchors();
-    setPlaying(true);
+  // following: drives the shared transport (every following tile); otherwise just this one
+  function toggle() {
+    if (follow) transport.toggle();
+    else if (playing) setPlaying(false);
+    else if (canRender) setPlaying(true);
   }
-  function stop() {
-    if (!playing) return;
+
+  function changeFollow(next: boolean) {
     setPlaying(false);
-    if (rafRef.current != null) cancelAnimationFrame(rafRef.current);
-    rafRef.current = null;
-    if (schedTimerRef.current != null) clearInterval(schedTimerRef.current);
-    schedTimerRef.current = null;
+    setFollow(next);
+    // a stopped transport takes this tile's bar length as its tempo
+    if (next && !shared.playing && barValid) transport.setBpm((TRANSPORT_BEATS * 60) / Number(barStr));
   }
 
+  useCommand(CMD_TOGGLE, toggle);
+  useRhythmTile(follow, toggle);
+
+  // Lock A/V to a fresh bar on start and whenever the pattern changes mid-play;
+  // following the transport, that bar begins on its next "1".
+  React.useEffect(() => {
+    if (!active) return;
+    startAudioIfNeeded();
+    const now = ctxRef.current!.currentTime;
+    resetAnchors(follow && shared.anchor != null ? nextDownbeat(shared.anchor, barSeconds!, now) : undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active, follow, shared.anchor, aStr, bStr, barSeconds]);
+
   // Animation loop (visuals)
   React.useEffect(() => {
-    if (!playing || !barValid) return;
+    if (!active) return;
     function loop() {
       const nowHr = performance.now();
       const t = (nowHr - anchorHighResRef.current) / 1000;
@@ -179,11 +221,11 @@ export default function PolyrhythmModule() {
     }
     rafRef.current = requestAnimationFrame(loop);
     return () => { if (rafRef.current != null) cancelAnimationFrame(rafRef.current); rafRef.current = null; };
-  }, [playing, barValid, barSeconds]);
+  }, [active, barSeconds]);
 
   // Click scheduler loop (audio)
   React.useEffect(() => {
-    if (!playing || !clicks || !aValid || !bValid || !barValid) {
+    if (!active || !clicks) {
       if (schedTimerRef.current != null) clearInterval(schedTimerRef.current);
       schedTimerRef.current = null;
       return;
@@ -229,10 +271,7 @@ export default function PolyrhythmModule() {
 
     schedTimerRef.current = window.setInterval(tick, LOOKAHEAD_MS);
     return () => { if (schedTimerRef.current != null) clearInterval(schedTimerRef.current); schedTimerRef.current = null; };
-  }, [playing, clicks, aValid, bValid, barValid, aCount, bCount, barSeconds]);
-
-  // Keep A/V locked if params change mid-play
-  React.useEffect(() => { if (playing && aValid && bValid && barValid) resetAnchors(); /* eslint-disable-next-line */ }, [aStr, bStr, barStr]);
+  }, [active, clicks, aCount, bCount, barSeconds]);
 
   /* ---------- SVG drawing (dots ON polygon) ---------- */
   const size = 360;
@@ -271,8 +310,6 @@ export default function PolyrhythmModule() {
   const pulseA = aValid && nearVertex(progress, Number(aStr));
   const pulseB = bValid && nearVertex(progress, Number(bStr));
 
-  const canRender = aValid && bValid && barValid;
-
   return (
     <div className="panel">
       {/* Controls (centered, inputs allow empty) */}
@@ -304,21 +341,32 @@ export default function PolyrhythmModule() {
             />
           </label>
 
-          <label className="check" style={{ gap: 6 }}>
-            <span>Bar (s)</span>
-            <input
-              className="input"
-              inputMode="decimal"
-              value={barStr}
-              onChange={onBarChange}
-              style={{ width: 86, textAlign: "center" }}
-              aria-label="Bar duration (seconds)"
-              placeholder="1.0"
-            />
-          </label>
-
-          <button className="button" onClick={() => (playing ? stop() : start())} disabled={!canRender}>
-            {playing ? "⏸ Pause" : "▶ Play"}
+          {follow ? (
+            <span className="badge" title="Bar length follows the transport tempo">
+              Bar = {TRANSPORT_BEATS} beats @ {shared.bpm} BPM
+            </span>
+          ) : (
+            <label className="check" style={{ gap: 6 }}>
+              <span>Bar (s)</span>
+              <input
+                className="input"
+                inputMode="decimal"
+                value={barStr}
+                onChange={onBarChange}
+                style={{ width: 86, textAlign: "center" }}
+                aria-label="Bar duration (seconds)"
+                placeholder="1.0"
+              />
+            </label>
+          )}
+
+          <button
+            className="button"
+            onClick={toggle}
+            disabled={!canRender}
+            title={follow ? "Start/stop the transport (Space)" : undefined}
+          >
+            {active ? "⏸ Pause" : "▶ Play"}
           </button>
 
           <label className="check" style={{ gap: 6 }}>
@@ -331,6 +379,11 @@ export default function PolyrhythmModule() {
             <span>Clicks</span>
           </label>
 
+          <label className="check" style={{ gap: 6 }} title="Bar length and start/stop from the shared transport">
+            <input type="checkbox" checked={follow} onChange={(e) => changeFollow(e.target.checked)} />
+            <span>Follow transport</span>
+          </label>
+
           <label className="check" style={{ gap: 6 }}>
             <span>Vol</span>
             <input
@@ -351,6 +404,7 @@ export default function PolyrhythmModule() {
       <div className="centered" style={{ marginTop: 10 }}>
         {canRender ? (
           <svg
+            className="poly-figure"
             width={360}
             height={360}
             viewBox="0 0 360 360"
@@ -390,3 +444,13 @@ export default function PolyrhythmModule() {
     </div>
   );
 }
+
+export const MODULE = defineModule({
+  key: "poly",
+  title: "Polyrhythm",
+  icon: "⚛️",
+  storagePrefix: "poly.",
+  settings: SHARE_FIELDS,
+  rhythmic: true,
+  component: PolyrhythmModule,
+});
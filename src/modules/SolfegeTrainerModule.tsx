@@ -3,6 +3,11 @@ import MicAnswer from "../components/MicAnswer";
 import SettingsDialog from "../components/SettingsDialog";
 import { startPitchClass } from "../utils/audio";
 import { addSemitones, PC_TO_NAME } from "../utils/music";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, boolean, intIn, oneOf, setOf, usePersistentState } from "../utils/persist";
+import { ShareFields } from "../utils/share";
+import { defineCommand, useCommand, useKeyHint } from "../utils/shortcuts";
+import { defineModule } from "./registry";
 
 /** ===== Degrees & solfege mapping ===== */
 type DegreeId =
@@ -42,55 +47,41 @@ const PRESETS: Record<string, DegreeId[]> = {
   "Locrian": ["1","b2","b3","4","#4","b6","b7"],
 };
 
-const K_SELECTED  = "solfege.selected.v2";
-const K_ROOT_PC   = "solfege.rootPc.v1";
-const K_ROOT_OCT  = "solfege.rootOct.v1";
-const K_MIC       = "solfege.mic.v1";
-const K_MAX_JUMP  = "solfege.maxJump.v1";
+const degreeSet = setOf(oneOf(DEGREES.map((d) => d.id)));
+const SELECTED: Schema<Set<DegreeId>> = {
+  key: "solfege.selected.v2",
+  version: 1,
+  legacyKeys: ["solfege.selected.v1"],
+  fallback: new Set<DegreeId>(["1","b3","4","5","b7"]),
+  parse: (d) => { const s = degreeSet(d); return s?.size ? s : undefined; },
+  serialize: (s) => Array.from(s),
+};
+const ROOT_PC: Schema<number> = { key: "solfege.rootPc.v1", version: 1, fallback: 0, parse: intIn(0, 11) };
+const ROOT_OCT: Schema<number> = { key: "solfege.rootOct.v1", version: 1, fallback: 4, parse: intIn(2, 5) };
+const MIC: Schema<boolean> = { key: "solfege.mic.v1", version: 1, fallback: true, parse: boolean };
+const MAX_JUMP: Schema<number> = { key: "solfege.maxJump.v1", version: 1, fallback: 12, parse: intIn(1, 12) };
+
+/** Settings carried by share links (see utils/share). */
+const SHARE_FIELDS: ShareFields = { degrees: SELECTED, root: ROOT_PC, octave: ROOT_OCT };
+
+const CMD_NEXT = defineCommand({ id: "solfege.next", group: "Solfege Trainer", title: "Next target", keys: ["n"] });
+const CMD_SETTINGS = defineCommand({ id: "solfege.settings", group: "Solfege Trainer", title: "Open/close settings", keys: ["s"] });
 
 function randomOf<T>(a: T[]): T { return a[Math.floor(Math.random() * a.length)]; }
-function loadSelected(): Set<DegreeId> {
-  try {
-    const raw = localStorage.getItem(K_SELECTED);
-    if (raw) {
-      const ids = JSON.parse(raw) as DegreeId[];
-      const valid = ids.filter((id) => DEG_BY_ID[id]);
-      if (valid.length) return new Set(valid);
-    }
-  } catch {}
-  return new Set<DegreeId>(["1","b3","4","5","b7"]);
-}
-function saveSelected(sel: Set<DegreeId>) {
-  try { localStorage.setItem(K_SELECTED, JSON.stringify(Array.from(sel))); } catch {}
-}
 function pcDistanceSemis(a: number, b: number): number {
   const d = Math.abs(a - b) % 12;
   return Math.min(d, 12 - d);
 }
 
 export default function SolfegeTrainerModule() {
-  const [selected, setSelected] = React.useState<Set<DegreeId>>(loadSelected);
-  React.useEffect(() => { saveSelected(selected); }, [selected]);
-
-  const [rootPc, setRootPc] = React.useState<number>(() => {
-    const raw = localStorage.getItem(K_ROOT_PC);
-    return raw ? Number(raw) : 0;
-  });
-  const [rootOct, setRootOct] = React.useState<number>(() => {
-    const raw = localStorage.getItem(K_ROOT_OCT);
-    return raw ? Number(raw) : 4;
-  });
-  React.useEffect(() => { try { localStorage.setItem(K_ROOT_PC, String(rootPc)); } catch {} }, [rootPc]);
-  React.useEffect(() => { try { localStorage.setItem(K_ROOT_OCT, String(rootOct)); } catch {} }, [rootOct]);
-
-  const [micEnabled, setMicEnabled] = React.useState<boolean>(() => (localStorage.getItem(K_MIC) ?? "true") === "true");
-  React.useEffect(() => { try { localStorage.setItem(K_MIC, String(micEnabled)); } catch {} }, [micEnabled]);
-
-  const [maxJump, setMaxJump] = React.useState<number>(() => {
-    const raw = Number(localStorage.getItem(K_MAX_JUMP) ?? 12);
-    return (raw >= 1 && raw <= 12) ? raw : 12;
-  });
-  React.useEffect(() => { try { localStorage.setItem(K_MAX_JUMP, String(maxJump)); } catch {} }, [maxJump]);
+  const [selected, setSelected] = usePersistentState(SELECTED);
+
+  const [rootPc, setRootPc] = usePersistentState(ROOT_PC);
+  const [rootOct, setRootOct] = usePersistentState(ROOT_OCT);
+
+  const [micEnabled, setMicEnabled] = usePersistentState(MIC);
+
+  const [maxJump, setMaxJump] = usePersistentState(MAX_JUMP);
 
   type Target = { id: DegreeId; name: string; semitones: number; answerPc: number; };
   const [target, setTarget] = React.useState<Target | null>(null);
@@ -142,7 +133,9 @@ export default function SolfegeTrainerModule() {
   React.useEffect(() => { pickTarget(); }, []);
   React.useEffect(() => { pickTarget(); }, [selected, rootPc, maxJump]);
 
+  const practice = usePracticeSession("solfege");
   const handleMicCorrect = React.useCallback(() => {
+    practice.count(true);
     setTimeout(() => pickTarget(), 160);
   }, []);
 
@@ -182,6 +175,10 @@ export default function SolfegeTrainerModule() {
     setSelected(new Set(ids));
   }
 
+  useCommand(CMD_NEXT, pickTarget);
+  useCommand(CMD_SETTINGS, () => setOpenSettings((v) => !v));
+  const nextHint = useKeyHint(CMD_NEXT);
+
   return (
     <div className="panel">
       <div style={{ display: "flex", justifyContent: "center", marginBottom: 8 }}>
@@ -251,7 +248,7 @@ export default function SolfegeTrainerModule() {
                 onClick={() => pickTarget()}
                 title="Skip to next target"
               >
-                Next
+                {nextHint ? `Next (${nextHint})` : "Next"}
               </button>
             </div>
           </div>
@@ -383,3 +380,13 @@ export default function SolfegeTrainerModule() {
     </div>
   );
 }
+
+export const MODULE = defineModule({
+  key: "solfege",
+  title: "Solfege Trainer",
+  icon: "🎤",
+  storagePrefix: "solfege.",
+  settings: SHARE_FIELDS,
+  singleton: true,
+  component: SolfegeTrainerModule,
+});
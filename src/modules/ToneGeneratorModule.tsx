@@ -2,12 +2,25 @@
 import React from "react";
 import { getAudioContext, midiToFreq } from "../utils/audio";
 import { PC_TO_NAME } from "../utils/music";
+import { usePracticeSession } from "../utils/practiceLog";
+import { Schema, intIn, numberIn, oneOf, string, usePersistentState } from "../utils/persist";
+import { defineCommand, useCommand } from "../utils/shortcuts";
+import { defineModule } from "./registry";
 
 type Mode = "note" | "freq";
 type Wave = OscillatorType;
 
 const WAVES: Wave[] = ["sine", "triangle", "square", "sawtooth"];
 
+const CMD_TOGGLE = defineCommand({ id: "tone.toggle", group: "Tone Generator", title: "Play/stop tone", keys: [] });
+
+const MODE: Schema<Mode> = { key: "tone.mode", version: 1, perTile: true, fallback: "note", parse: oneOf<Mode>(["note", "freq"]) };
+const WAVE: Schema<Wave> = { key: "tone.wave", version: 1, perTile: true, fallback: "sine", parse: oneOf(WAVES) };
+const PC: Schema<number> = { key: "tone.pc", version: 1, perTile: true, fallback: 9, parse: intIn(0, 11) }; // A by default
+const OCT: Schema<number> = { key: "tone.oct", version: 1, perTile: true, fallback: 4, parse: intIn(1, 7) };
+const HZ: Schema<string> = { key: "tone.hz", version: 1, perTile: true, fallback: "440", parse: (d) => (typeof d === "number" ? String(d) : string(d)) };
+const VOLUME: Schema<number> = { key: "tone.volPct", version: 1, perTile: true, fallback: 70, parse: numberIn(0, 100) }; // default 70%
+
 // Build stable note options from PC_TO_NAME (0..11)
 const NOTE_OPTIONS = Object.entries(PC_TO_NAME as Record<number, string>)
   .map(([pc, name]) => ({ pc: Number(pc), name }))
@@ -26,31 +39,27 @@ function dbToLinear(db: number) {
 
 export default function ToneGeneratorModule() {
   // UI state (persisted)
-  const [mode, setMode] = React.useState<Mode>(() => (localStorage.getItem("tone.mode") as Mode) || "note");
-  const [wave, setWave] = React.useState<Wave>(() => (localStorage.getItem("tone.wave") as Wave) || "sine");
+  const [mode, setMode] = usePersistentState(MODE);
+  const [wave, setWave] = usePersistentState(WAVE);
 
   // Note mode
-  const [pc, setPc] = React.useState<number>(() => Number(localStorage.getItem("tone.pc") ?? 9)); // A by default
-  const [oct, setOct] = React.useState<number>(() => Number(localStorage.getItem("tone.oct") ?? 4));
+  const [pc, setPc] = usePersistentState(PC);
+  const [oct, setOct] = usePersistentState(OCT);
 
   // Frequency mode
-  const [hzInput, setHzInput] = React.useState<string>(() => localStorage.getItem("tone.hz") ?? "440");
+  const [hzInput, setHzInput] = usePersistentState(HZ);
 
   // Transport
   const [playing, setPlaying] = React.useState(false);
 
   // Volume (percent, 0..100) — default 70%
-  const [volumePct, setVolumePct] = React.useState<number>(() => {
-    const v = Number(localStorage.getItem("tone.volPct") ?? 70);
-    return Number.isFinite(v) ? Math.max(0, Math.min(100, v)) : 70;
-  });
-
-  React.useEffect(() => { try { localStorage.setItem("tone.mode", mode); } catch {} }, [mode]);
-  React.useEffect(() => { try { localStorage.setItem("tone.wave", wave); } catch {} }, [wave]);
-  React.useEffect(() => { try { localStorage.setItem("tone.pc", String(pc)); } catch {} }, [pc]);
-  React.useEffect(() => { try { localStorage.setItem("tone.oct", String(oct)); } catch {} }, [oct]);
-  React.useEffect(() => { try { localStorage.setItem("tone.hz", hzInput); } catch {} }, [hzInput]);
-  React.useEffect(() => { try { localStorage.setItem("tone.volPct", String(volumePct)); } catch {} }, [volumePct]);
+  const [volumePct, setVolumePct] = usePersistentState(VOLUME);
+
+  // practice log: one session per play → stop
+  const practice = usePracticeSession("tone");
+  React.useEffect(() => {
+    playing ? practice.begin() : practice.end();
+  }, [playing, practice]);
 
   // Audio graph refs
   const oscRef = React.useRef<OscillatorNode | null>(null);
@@ -192,6 +201,7 @@ export default function ToneGeneratorModule() {
   function togglePlay() {
     setPlaying((p) => !p);
   }
+  useCommand(CMD_TOGGLE, togglePlay);
 
   return (
     <div className="panel">
@@ -303,3 +313,11 @@ export default function ToneGeneratorModule() {
     </div>
   );
 }
+
+export const MODULE = defineModule({
+  key: "tone",
+  title: "Tone Generator",
+  icon: "🎛️",
+  storagePrefix: "tone.",
+  component: ToneGeneratorModule,
+});
@@ -0,0 +1,26 @@
+// src/modules/index.ts
+// Every module the app knows, in drawer order. To add one, export a MODULE
+// from its file (see registry.ts) and list it here.
+
+import { MODULE as quiz } from "../components/IntervalQuiz";
+import { MODULE as tuner } from "./ChromaticTunerModule";
+import { MODULE as metro } from "./MetronomeModule";
+import { MODULE as clave } from "./ClaveModule";
+import { MODULE as solfege } from "./SolfegeTrainerModule";
+import { MODULE as chord } from "./ChordTrainerModule";
+import { MODULE as dictation } from "./MelodicDictationModule";
+import { MODULE as tone } from "./ToneGeneratorModule";
+import { MODULE as poly } from "./PolyrhythmModule";
+import { ModuleDef } from "./registry";
+
+export const MODULE_LIST: ModuleDef[] = [quiz, tuner, metro, clave, solfege, chord, dictation, tone, poly];
+
+const BY_KEY = new Map(MODULE_LIST.map((m) => [m.key, m]));
+
+export function getModule(key: string): ModuleDef | undefined {
+  return BY_KEY.get(key);
+}
+
+export function isModuleKey(v: unknown): v is string {
+  return typeof v === "string" && BY_KEY.has(v);
+}
@@ -0,0 +1,36 @@
+// src/modules/registry.ts
+// Module registry. Each tile type describes itself once, next to its component
+// (`export const MODULE = defineModule({...})`), and is listed in modules/index.ts.
+// The drawer, saved-tile validation, layouts, share links and history titles
+// are all derived from these definitions.
+
+import React from "react";
+import { ShareFields } from "../utils/share";
+
+/** Width of a tile in the grid (see .tile.size-* in layout.css); narrow screens show all tiles full width. */
+export type TileSize = "compact" | "normal" | "wide";
+export const TILE_SIZES: TileSize[] = ["compact", "normal", "wide"];
+
+export type ModuleDef = {
+  /** Stable id stored with tiles, layouts, links and the practice log; never rename. */
+  key: string;
+  title: string;
+  icon: string;
+  /** At most one tile of this module. */
+  singleton?: boolean;
+  /** Can follow the shared transport (shows the transport in the top bar). */
+  rhythmic?: boolean;
+  /** localStorage key prefix of the module's settings (captured by layouts). */
+  storagePrefix: string;
+  /** Exercise settings carried by share links: field name -> schema. */
+  settings?: ShareFields;
+  /** Size of a newly added tile (normal when omitted). */
+  defaultSize?: TileSize;
+  /** Part of the workspace on first run. */
+  starter?: boolean;
+  component: React.ComponentType;
+};
+
+export function defineModule(def: ModuleDef): ModuleDef {
+  return def;
+}
@@ -0,0 +1,57 @@
+// src/sw.js
+// Service worker template. The build (see vite.config.ts) fills in the list of
+// emitted files and a build id, and writes the result to dist/sw.js.
+//
+// - install: precache every file of the build, so the app runs without network
+// - activate: drop caches of older builds
+// - fetch: cache first; page navigations get the cached app shell
+// A new build waits until the page asks it to take over (update prompt).
+
+/* global __PRECACHE__, __BUILD_ID__ */
+
+const CACHE = `tonegenius-${__BUILD_ID__}`;
+const PRECACHE = __PRECACHE__;
+const SHELL = "index.html";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("tonegenius-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    // any in-app URL (with or without #setup=…) is served by the shell
+    event.respondWith(
+      caches.match(new URL(SHELL, self.registration.scope).href).then((shell) => shell ?? fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((hit) => {
+      if (hit) return hit;
+      return fetch(request).then((res) => {
+        // keep anything else same-origin (files added after install) for the next offline visit
+        if (res.ok) {
+          const copy = res.clone();
+          caches.open(CACHE).then((cache) => cache.put(request, copy));
+        }
+        return res;
+      });
+    })
+  );
+});
@@ -1,13 +1,14 @@
 import React from "react";
+import { Schema, load, oneOf, save } from "./utils/persist";
 
 export type Theme = "light" | "dark";
-const STORAGE_KEY = "intervalQuiz.theme.v1";
+const THEME: Schema<Theme | null> = {
+  key: "intervalQuiz.theme.v1", version: 1, fallback: null, parse: oneOf<Theme>(["light", "dark"]),
+};
 
 function getDefaultTheme(): Theme {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY) as Theme | null;
-    if (saved === "light" || saved === "dark") return saved;
-  } catch {}
+  const saved = load(THEME);
+  if (saved) return saved;
   return window.matchMedia && window.matchMedia("(prefers-color-scheme: dark)").matches
     ? "dark"
     : "light";
@@ -21,7 +22,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
 
   React.useEffect(() => {
     document.documentElement.setAttribute("data-theme", theme);
-    try { localStorage.setItem(STORAGE_KEY, theme); } catch {}
+    save(THEME, theme);
   }, [theme]);
 
   return (
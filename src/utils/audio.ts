@@ -2,14 +2,16 @@
 // WebAudio helpers + YIN/autocorrelation pitch detection with pre-filtering
 // and optional dynamics compression (helps stabilize level for detection).
 
+import { acf, rmsOf, yin } from "./pitchDetect";
+
 let audioCtx: AudioContext | null = null;
 export function getAudioContext(): AudioContext {
   if (!audioCtx) audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
   return audioCtx;
 }
 
-export type MicAnalyserOptions = {
-  fftSize?: number;          // default 8192 for steadier low notes
+export type MicInputOptions = {
+  deviceId?: string;         // input device (see enumerateDevices); default device when omitted
   filtering?: boolean;       // pre-filter input
   hpHz?: number;             // high-pass cutoff
   lpHz?: number;             // low-pass cutoff
@@ -27,14 +29,18 @@ export type MicAnalyserOptions = {
   preGainDb?: number;        // optional pre-gain before compressor (dB), default 0
 };
 
-/** Start mic and return {analyser, cleanup, stream}. Throws on permission error. */
-export async function startMicAnalyser(opts: MicAnalyserOptions = {}): Promise<{
-  analyser: AnalyserNode;
+export type MicInput = {
+  ctx: AudioContext;
+  /** Last node of the filter chain; connect the consumer (the frame-tap worklet) here. */
+  output: AudioNode;
   cleanup: () => void;
   stream: MediaStream;
-}> {
+};
+
+/** Open the mic and build the pre-filter chain. Throws on permission error. */
+export async function openMicInput(opts: MicInputOptions = {}): Promise<MicInput> {
   const {
-    fftSize = 8192,          // bigger window -> better low-frequency stability
+    deviceId,
     filtering = true,
     hpHz = 45,               // allow more low content for bass instruments
     lpHz = 1200,             // keep fundamentals; tame upper harmonics
@@ -54,6 +60,7 @@ export async function startMicAnalyser(opts: MicAnalyserOptions = {}): Promise<{
   const ctx = getAudioContext();
   const stream = await navigator.mediaDevices.getUserMedia({
     audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
       echoCancellation: false,
       noiseSuppression: false,
       autoGainControl: false,
@@ -63,7 +70,7 @@ export async function startMicAnalyser(opts: MicAnalyserOptions = {}): Promise<{
 
   const source = ctx.createMediaStreamSource(stream);
 
-  // Build chain: Source -> [Filters] -> [PreGain] -> [Compressor] -> Analyser
+  // Build chain: Source -> [Filters] -> [PreGain] -> [Compressor] -> output
   let lastNode: AudioNode = source;
 
   // Optional pre-filtering: HPF -> (hum notch) -> LPF
@@ -124,11 +131,6 @@ export async function startMicAnalyser(opts: MicAnalyserOptions = {}): Promise<{
     lastNode = comp;
   }
 
-  const analyser = ctx.createAnalyser();
-  analyser.fftSize = fftSize;
-  analyser.smoothingTimeConstant = 0.94; // steadier frames
-  lastNode.connect(analyser);
-
   const cleanup = () => {
     try { lastNode.disconnect(); } catch {}
     try { if (comp) comp.disconnect(); } catch {}
@@ -137,118 +139,29 @@ export async function startMicAnalyser(opts: MicAnalyserOptions = {}): Promise<{
     stream.getTracks().forEach((t) => t.stop());
   };
 
-  return { analyser, cleanup, stream };
+  return { ctx, output: lastNode, cleanup, stream };
 }
 
-/** Classic autocorrelation (kept in case you need it elsewhere). */
-export function detectPitchHzACF(analyser: AnalyserNode, minHz = 70, maxHz = 1200): number | null {
-  const sampleRate = analyser.context.sampleRate;
-  const N = analyser.fftSize;
-  const buf = new Float32Array(N);
-  analyser.getFloatTimeDomainData(buf);
-
-  let rms = 0;
-  for (let i = 0; i < N; i++) rms += buf[i] * buf[i];
-  rms = Math.sqrt(rms / N);
-  if (rms < 0.006) return null;
-
-  // remove DC
-  let mean = 0;
-  for (let i = 0; i < N; i++) mean += buf[i];
-  mean /= N;
-  for (let i = 0; i < N; i++) buf[i] -= mean;
-
-  const minLag = Math.floor(sampleRate / maxHz);
-  const maxLag = Math.floor(sampleRate / minHz);
-  let bestLag = -1;
-  let bestCorr = 0;
-
-  for (let lag = minLag; lag <= Math.min(maxLag, N - 1); lag++) {
-    let corr = 0;
-    for (let i = 0; i < N - lag; i++) corr += buf[i] * buf[i + lag];
-    if (corr > bestCorr) { bestCorr = corr; bestLag = lag; }
-  }
-  if (bestLag <= 0) return null;
-
-  const y1 = acAtLag(buf, bestLag - 1);
-  const y2 = acAtLag(buf, bestLag);
-  const y3 = acAtLag(buf, bestLag + 1);
-  let refined = bestLag;
-  const denom = (y1 - 2 * y2 + y3);
-  if (denom !== 0) refined = bestLag + 0.5 * (y1 - y3) / denom;
+/** Below this RMS a frame counts as silence, unless a calibrated noise floor says otherwise (see mic.ts). */
+export const DEFAULT_RMS_GATE = 0.006;
 
-  const f = sampleRate / refined;
-  return isFinite(f) ? f : null;
+/** Classic autocorrelation on one frame of samples (see pitchDetect.acf). */
+export function detectPitchHzACF(buf: Float32Array, sampleRate: number, minHz = 70, maxHz = 1200): number | null {
+  if (rmsOf(buf) < DEFAULT_RMS_GATE) return null;
+  return acf(buf, sampleRate, minHz, maxHz)?.hz ?? null;
 }
 
-function acAtLag(buf: Float32Array, lag: number): number {
-  if (lag < 1 || lag >= buf.length) return 0;
-  let s = 0;
-  for (let i = 0; i < buf.length - lag; i++) s += buf[i] * buf[i + lag];
-  return s;
-}
-
-/** YIN pitch detector (De Cheveigné & Kawahara) — rock solid on low notes. */
+/** YIN on one frame of samples (see pitchDetect.yin). */
 export function detectPitchHzYIN(
-  analyser: AnalyserNode,
+  buf: Float32Array,
+  sampleRate: number,
   minHz = 30,
   maxHz = 800,
   threshold = 0.12
 ): number | null {
-  const sr = analyser.context.sampleRate;
-  const N = analyser.fftSize;
-  const buf = new Float32Array(N);
-  analyser.getFloatTimeDomainData(buf);
-
   // quick gate
-  let rms = 0;
-  for (let i = 0; i < N; i++) rms += buf[i] * buf[i];
-  rms = Math.sqrt(rms / N);
-  if (rms < 0.006) return null;
-
-  // difference function d(tau)
-  const maxTau = Math.min(Math.floor(sr / minHz), N - 1);
-  const minTau = Math.max(2, Math.floor(sr / maxHz));
-  const d = new Float32Array(maxTau + 1);
-  for (let tau = 1; tau <= maxTau; tau++) {
-    let sum = 0;
-    for (let i = 0; i < N - tau; i++) {
-      const diff = buf[i] - buf[i + tau];
-      sum += diff * diff;
-    }
-    d[tau] = sum;
-  }
-
-  // cumulative mean normalized difference CMND
-  const cmnd = new Float32Array(maxTau + 1);
-  cmnd[0] = 1;
-  let running = 0;
-  for (let tau = 1; tau <= maxTau; tau++) {
-    running += d[tau];
-    cmnd[tau] = d[tau] * tau / running;
-  }
-
-  // absolute threshold
-  let tau = -1;
-  for (let t = minTau; t <= maxTau; t++) {
-    if (cmnd[t] < threshold) {
-      // local minimum around t
-      while (t + 1 <= maxTau && cmnd[t + 1] < cmnd[t]) t++;
-      tau = t;
-      break;
-    }
-  }
-  if (tau === -1) return null;
-
-  // parabolic interpolation around tau
-  const x0 = tau <= 1 ? tau : tau - 1;
-  const x2 = tau + 1 > maxTau ? tau : tau + 1;
-  const y0 = cmnd[x0], y1 = cmnd[tau], y2 = cmnd[x2];
-  const denom = (y0 - 2 * y1 + y2);
-  const betterTau = denom !== 0 ? tau + 0.5 * (y0 - y2) / denom : tau;
-
-  const f = sr / betterTau;
-  return isFinite(f) ? f : null;
+  if (rmsOf(buf) < DEFAULT_RMS_GATE) return null;
+  return yin(buf, sampleRate, minHz, maxHz, threshold)?.hz ?? null;
 }
 
 /** Conversions */
@@ -330,6 +243,114 @@ export function startPitchClass(
   return stop;
 }
 
+/**
+ * Polyphonic one-shot: plays several MIDI notes (optionally strummed/arpeggiated)
+ * through a shared bus. Level is scaled by voice count to avoid clipping.
+ * Returns a stop() function that releases all voices early.
+ */
+export function playChord(
+  midis: number[],
+  ms = 1400,
+  type: OscillatorType = "triangle",
+  gainDb = -8,
+  strumMs = 0
+): () => void {
+  const ctx = getAudioContext();
+  if (ctx.state === "suspended") ctx.resume().catch(() => {});
+
+  const bus = ctx.createGain();
+  bus.gain.value = dbToLinear(gainDb) / Math.sqrt(Math.max(1, midis.length));
+  bus.connect(ctx.destination);
+
+  const now = ctx.currentTime;
+  const end = now + (strumMs * (midis.length - 1) + ms) / 1000;
+  const voices = midis.map((m, i) => {
+    const t0 = now + (i * strumMs) / 1000;
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = midiToFreq(m);
+
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0, t0);
+    env.gain.linearRampToValueAtTime(1, t0 + 0.012);
+    env.gain.setTargetAtTime(0.7, t0 + 0.012, 0.25);  // gentle decay to sustain
+    env.gain.setTargetAtTime(0, end - 0.08, 0.03);    // release
+
+    osc.connect(env).connect(bus);
+    osc.start(t0);
+    osc.stop(end + 0.05);
+    return { osc, env };
+  });
+
+  let stopped = false;
+  const cleanupTimer = window.setTimeout(stop, (end - now) * 1000 + 120);
+  function stop() {
+    if (stopped) return;
+    stopped = true;
+    clearTimeout(cleanupTimer);
+    const t = ctx.currentTime;
+    bus.gain.cancelScheduledValues(t);
+    bus.gain.setTargetAtTime(0, t, 0.02);
+    voices.forEach(({ osc, env }) => {
+      try { osc.stop(t + 0.1); } catch {}
+      window.setTimeout(() => {
+        try { osc.disconnect(); } catch {}
+        try { env.disconnect(); } catch {}
+      }, 150);
+    });
+    window.setTimeout(() => { try { bus.disconnect(); } catch {} }, 150);
+  }
+  return stop;
+}
+
+/**
+ * Play a monophonic sequence of notes back to back on the audio clock.
+ * Each event is a MIDI note (null = rest) + duration; notes are slightly detached.
+ * Returns a stop() function that cancels everything still pending.
+ */
+export function playSequence(
+  events: { midi: number | null; ms: number }[],
+  type: OscillatorType = "triangle",
+  gainDb = -8
+): () => void {
+  const ctx = getAudioContext();
+  if (ctx.state === "suspended") ctx.resume().catch(() => {});
+  const level = dbToLinear(gainDb);
+
+  let t = ctx.currentTime + 0.05;
+  const voices: { osc: OscillatorNode; env: GainNode }[] = [];
+  events.forEach(({ midi, ms }) => {
+    const dur = ms / 1000;
+    if (midi == null) { t += dur; return; }
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = midiToFreq(midi);
+
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0, t);
+    env.gain.linearRampToValueAtTime(level, t + 0.01);
+    env.gain.setTargetAtTime(0, t + dur * 0.85, 0.03);
+
+    osc.connect(env).connect(ctx.destination);
+    osc.start(t);
+    osc.stop(t + dur + 0.05);
+    osc.onended = () => {
+      try { osc.disconnect(); } catch {}
+      try { env.disconnect(); } catch {}
+    };
+    t += dur;
+    voices.push({ osc, env });
+  });
+
+  return () => {
+    const now = ctx.currentTime;
+    voices.forEach(({ osc, env }) => {
+      try { env.gain.cancelScheduledValues(now); env.gain.setTargetAtTime(0, now, 0.01); } catch {}
+      try { osc.stop(now + 0.05); } catch {}
+    });
+  };
+}
+
 /* helpers */
 function dbToLinear(db: number) {
   return Math.pow(10, db / 20);
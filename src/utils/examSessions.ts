@@ -0,0 +1,92 @@
+// src/utils/examSessions.ts
+// Fixed-length / timed Interval Quiz sessions and their saved history.
+
+import { QuizMode } from "./quizStats";
+import { Parser, Schema, arrayOf, intIn, isRecord, load, oneOf, save, shape } from "./persist";
+
+export type ExamConfig = {
+  questions: number; // 0 = no question limit
+  minutes: number;   // 0 = no time limit
+};
+
+export type ExamItem = {
+  prompt: string;     // e.g. "C4 M10 ↑" or "Eb ? harmonic"
+  expected: string;
+  answers: string[];  // every answer given, in order
+  ok: boolean;        // eventually answered correctly
+  ms: number;         // time until correct answer (or until skipped)
+};
+
+export type ExamSession = {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  config: ExamConfig;
+  mode: QuizMode;
+  items: ExamItem[];
+};
+
+const MAX_SESSIONS = 200;
+
+export const DEFAULT_EXAM: ExamConfig = { questions: 20, minutes: 0 };
+
+function isExamItem(v: unknown): v is ExamItem {
+  return isRecord(v)
+    && typeof v.prompt === "string" && typeof v.expected === "string"
+    && Array.isArray(v.answers) && v.answers.every((a) => typeof a === "string")
+    && typeof v.ok === "boolean" && typeof v.ms === "number" && Number.isFinite(v.ms);
+}
+
+const parseConfig = shape<ExamConfig>({ questions: intIn(0, 500), minutes: intIn(0, 600) }, DEFAULT_EXAM);
+const parseItems = arrayOf((i) => (isExamItem(i) ? i : undefined)); // drop damaged items
+
+const parseSession: Parser<ExamSession> = (s) => {
+  if (!isRecord(s) || typeof s.id !== "string" || typeof s.startedAt !== "number" || typeof s.endedAt !== "number") return undefined;
+  const items = parseItems(s.items);
+  if (!items) return undefined;
+  return {
+    id: s.id,
+    startedAt: s.startedAt,
+    endedAt: s.endedAt,
+    config: parseConfig(s.config) ?? DEFAULT_EXAM,
+    mode: oneOf<QuizMode>(["theory", "ear"])(s.mode) ?? "theory",
+    items,
+  };
+};
+
+const HISTORY: Schema<ExamSession[]> = {
+  key: "intervalQuiz.sessions.v1",
+  version: 1,
+  kind: "data",
+  fallback: [],
+  parse: arrayOf(parseSession),
+  serialize: (list) => list.slice(-MAX_SESSIONS),
+};
+
+export function loadHistory(): ExamSession[] {
+  return load(HISTORY);
+}
+
+export function saveHistory(list: ExamSession[]) {
+  save(HISTORY, list);
+}
+
+/** First-try correct items over all items, 0..100. */
+export function sessionScore(s: ExamSession): number {
+  if (!s.items.length) return 0;
+  const first = s.items.filter((i) => i.ok && i.answers.length === 1).length;
+  return Math.round((first / s.items.length) * 100);
+}
+
+export function sessionAvgMs(s: ExamSession): number | null {
+  const solved = s.items.filter((i) => i.ok);
+  if (!solved.length) return null;
+  return solved.reduce((a, i) => a + i.ms, 0) / solved.length;
+}
+
+export function formatClock(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
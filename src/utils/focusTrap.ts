@@ -0,0 +1,53 @@
+// src/utils/focusTrap.ts
+// Modal focus handling for dialogs and the drawer: while active, focus moves
+// into the container, Tab cycles inside it and Escape closes it; when it goes
+// inactive, focus returns to whatever had it before (usually the opener).
+
+import React from "react";
+
+const FOCUSABLE = [
+  "a[href]", "button:not([disabled])", "input:not([disabled]):not([type=hidden])", "select:not([disabled])",
+  "textarea:not([disabled])", "[tabindex]:not([tabindex='-1'])", "[contenteditable='true']",
+].join(", ");
+
+function focusables(root: HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((el) => el.offsetParent !== null || el === document.activeElement);
+}
+
+/**
+ * Trap focus in `ref` while `active`. Focus starts on the element marked
+ * `data-autofocus`, else on the container itself (give it tabIndex={-1}).
+ */
+export function useFocusTrap(ref: React.RefObject<HTMLElement | null>, active: boolean, onEscape: () => void) {
+  const escapeRef = React.useRef(onEscape);
+  React.useEffect(() => { escapeRef.current = onEscape; });
+
+  React.useEffect(() => {
+    const root = ref.current;
+    if (!active || !root) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+    (root.querySelector<HTMLElement>("[data-autofocus]") ?? root).focus();
+
+    function onKey(e: KeyboardEvent) {
+      if (e.key === "Escape") {
+        e.stopPropagation();
+        escapeRef.current();
+        return;
+      }
+      if (e.key !== "Tab" || !root) return;
+      const list = focusables(root);
+      if (list.length === 0) { e.preventDefault(); root.focus(); return; }
+      const first = list[0];
+      const last = list[list.length - 1];
+      const at = document.activeElement;
+      if (e.shiftKey && (at === first || at === root)) { e.preventDefault(); last.focus(); }
+      else if (!e.shiftKey && at === last) { e.preventDefault(); first.focus(); }
+    }
+    root.addEventListener("keydown", onKey);
+    return () => {
+      root.removeEventListener("keydown", onKey);
+      if (opener?.isConnected) opener.focus();
+    };
+  }, [active, ref]);
+}
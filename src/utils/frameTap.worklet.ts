@@ -0,0 +1,59 @@
+// src/utils/frameTap.worklet.ts
+// AudioWorklet processor that cuts the mic signal into hop-sized frames and
+// hands them, untouched, to the pitch worker over the MessagePort it is sent.
+// Nothing is analysed on the audio thread, so detection cost can't glitch
+// the metronome or tone generator sharing the context.
+//
+// Runs in AudioWorkletGlobalScope: keep it free of imports.
+
+export {};
+
+declare const currentTime: number;
+declare function registerProcessor(name: string, ctor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+export type TapFrame = {
+  frame: Float32Array;
+  /** AudioContext time (seconds) of the render quantum that completed the frame. */
+  time: number;
+};
+
+class FrameTap extends AudioWorkletProcessor {
+  private hop: number;
+  private frame: Float32Array;
+  private filled = 0;
+  private out: MessagePort | null = null;
+
+  constructor(options: { processorOptions?: { hop?: number } }) {
+    super();
+    this.hop = Math.max(128, options.processorOptions?.hop ?? 1024);
+    this.frame = new Float32Array(this.hop);
+    this.port.onmessage = (e: MessageEvent<{ port?: MessagePort }>) => {
+      if (e.data.port) this.out = e.data.port;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input || !this.out) return true;
+
+    let read = 0;
+    while (read < input.length) {
+      const n = Math.min(input.length - read, this.hop - this.filled);
+      this.frame.set(input.subarray(read, read + n), this.filled);
+      this.filled += n;
+      read += n;
+      if (this.filled === this.hop) {
+        const msg: TapFrame = { frame: this.frame, time: currentTime };
+        this.out.postMessage(msg, [this.frame.buffer]);
+        this.frame = new Float32Array(this.hop);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor("frame-tap", FrameTap);
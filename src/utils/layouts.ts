@@ -0,0 +1,52 @@
+// src/utils/layouts.ts
+// Named workspace layouts: a tile stack plus the settings of its modules.
+
+import { Schema, arrayOf, isRecord } from "./persist";
+
+export type LayoutTile = { id: string; key: string; size?: string }; // size: see TileSize in App
+
+export type Layout = {
+  id: string;
+  name: string;
+  tiles: LayoutTile[];
+  settings: Record<string, string>; // raw stored values (see snapshotSettings)
+  savedAt: number;
+};
+
+function isLayoutTile(v: unknown): v is LayoutTile {
+  return isRecord(v) && typeof v.id === "string" && typeof v.key === "string";
+}
+
+function parseLayout(v: unknown): Layout | undefined {
+  if (!isRecord(v) || typeof v.id !== "string" || typeof v.name !== "string" || !Array.isArray(v.tiles)) return undefined;
+  const settings: Record<string, string> = {};
+  if (isRecord(v.settings)) {
+    Object.entries(v.settings).forEach(([k, raw]) => { if (typeof raw === "string") settings[k] = raw; });
+  }
+  return {
+    id: v.id,
+    name: v.name,
+    tiles: v.tiles.filter(isLayoutTile),
+    settings,
+    savedAt: typeof v.savedAt === "number" ? v.savedAt : 0,
+  };
+}
+
+export const LAYOUTS: Schema<Layout[]> = {
+  key: "app.layouts.v1",
+  version: 1,
+  fallback: [],
+  parse: arrayOf(parseLayout),
+};
+
+/** Id of the layout last loaded or saved (null = unsaved workspace). */
+export const ACTIVE_LAYOUT: Schema<string | null> = {
+  key: "app.layout.active",
+  version: 1,
+  fallback: null,
+  parse: (d) => (typeof d === "string" ? d : undefined),
+};
+
+export function makeLayoutId(): string {
+  return `layout-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
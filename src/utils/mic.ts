@@ -0,0 +1,341 @@
+// src/utils/mic.ts
+// The app's one microphone session. Every mic consumer (tuner, quiz and
+// solfege answers) subscribes here instead of opening its own stream: the
+// device and pitch tracker are started for the first subscriber and released
+// when the last one unsubscribes, so several mic tiles cost one stream and
+// one detector.
+//
+// It also owns the input choice: which device to open, and per device a
+// profile with the pre-filter settings and the measured noise floor (the
+// level gate). Changing either reopens a running session in place.
+
+import React from "react";
+import { DEFAULT_RMS_GATE } from "./audio";
+import { startPitchTracker, PitchTracker, PitchTrackerOptions, TrackerFrame } from "./pitchTracker";
+import { DetectorSpec, detectorKey } from "./pitchDetect";
+import { Schema, boolean, isRecord, load, numberIn, save, shape, string } from "./persist";
+
+/** What a subscriber receives every analysis hop (~50 per second). */
+export type PitchEvent = {
+  hz: number | null;
+  /** 0..1 periodicity from the subscriber's detector (0 when no pitch). */
+  clarity: number;
+  /** RMS of the newest audio, after the profile's filters and gain. */
+  level: number;
+  /** AudioContext time (seconds) of the newest audio. */
+  time: number;
+};
+
+/** Detector used when a subscriber doesn't ask for one. */
+export const DEFAULT_DETECTOR: DetectorSpec = { detector: "yin", minHz: 30, maxHz: 900, threshold: 0.12 };
+
+export type MicProfile = {
+  hpHz: number;
+  lpHz: number;
+  notch50: boolean;
+  notch60: boolean;
+  compressor: boolean;
+  preGainDb: number;
+  /** RMS of the room with nobody playing (from calibration); null = not measured. */
+  noiseFloor: number | null;
+};
+
+export const DEFAULT_PROFILE: MicProfile = {
+  hpHz: 45,
+  lpHz: 1200,
+  notch50: true,
+  notch60: false,
+  compressor: false,
+  preGainDb: 0,
+  noiseFloor: null,
+};
+
+/** The gate sits this far above the measured floor (≈ +8 dB). */
+const GATE_OVER_FLOOR = 2.5;
+
+export const PROFILE_LIMITS = {
+  hpHz: [20, 200],
+  lpHz: [600, 5000],
+  preGainDb: [-12, 30],
+} as const;
+
+const parseProfile = shape<MicProfile>({
+  hpHz: numberIn(...PROFILE_LIMITS.hpHz),
+  lpHz: numberIn(...PROFILE_LIMITS.lpHz),
+  notch50: boolean,
+  notch60: boolean,
+  compressor: boolean,
+  preGainDb: numberIn(...PROFILE_LIMITS.preGainDb),
+  noiseFloor: (d) => (d === null ? null : numberIn(0, 1)(d)),
+}, DEFAULT_PROFILE);
+
+/** Selected input deviceId ("" = the system default). */
+const DEVICE: Schema<string> = { key: "mic.device", version: 1, fallback: "", parse: string };
+/** deviceId ("" = default) -> profile. */
+const PROFILES: Schema<Record<string, MicProfile>> = {
+  key: "mic.profiles",
+  version: 1,
+  fallback: {},
+  parse: (d) => {
+    if (!isRecord(d)) return undefined;
+    const out: Record<string, MicProfile> = {};
+    Object.entries(d).forEach(([id, p]) => {
+      const profile = parseProfile(p);
+      if (profile) out[id] = profile;
+    });
+    return out;
+  },
+};
+
+export type MicSettings = {
+  deviceId: string;
+  profile: MicProfile;
+};
+
+let profiles = load(PROFILES);
+let settings: MicSettings = settingsFor(load(DEVICE));
+const settingsListeners = new Set<() => void>();
+
+function settingsFor(deviceId: string): MicSettings {
+  return { deviceId, profile: profiles[deviceId] ?? DEFAULT_PROFILE };
+}
+
+function updateSettings(next: MicSettings) {
+  settings = next;
+  settingsListeners.forEach((fn) => fn());
+  if (opening) { close(); open(); } // reopen with the new device/filters
+}
+
+/** RMS gate for a profile: above its measured floor, else the fixed default. */
+export function gateFor(profile: MicProfile): number {
+  return profile.noiseFloor != null ? Math.max(0.0005, profile.noiseFloor * GATE_OVER_FLOOR) : DEFAULT_RMS_GATE;
+}
+
+/** The profile's low-pass, opened up when a detector listens above it. */
+function lowPassFor(profile: MicProfile, detectors: DetectorSpec[]): number {
+  return Math.max(profile.lpHz, ...detectors.map((d) => Math.round(d.maxHz * 1.5)));
+}
+
+function trackerOptions({ deviceId, profile }: MicSettings, detectors: DetectorSpec[]): PitchTrackerOptions {
+  const { noiseFloor: _, ...filters } = profile;
+  return {
+    ...filters,
+    lpHz: lowPassFor(profile, detectors),
+    deviceId: deviceId || undefined,
+    filtering: true,
+    detectors,
+    gate: gateFor(profile),
+  };
+}
+
+export const micSettings = {
+  get: (): MicSettings => settings,
+  subscribe(fn: () => void) {
+    settingsListeners.add(fn);
+    return () => { settingsListeners.delete(fn); };
+  },
+  /** Switch input; the device's saved profile (or the defaults) comes with it. */
+  selectDevice(deviceId: string) {
+    if (deviceId === settings.deviceId) return;
+    save(DEVICE, deviceId);
+    updateSettings(settingsFor(deviceId));
+  },
+  /** Store the profile of the selected device. */
+  saveProfile(profile: MicProfile) {
+    profiles = { ...profiles, [settings.deviceId]: profile };
+    save(PROFILES, profiles);
+    updateSettings({ ...settings, profile });
+  },
+  resetProfile() {
+    const { [settings.deviceId]: _, ...rest } = profiles;
+    profiles = rest;
+    save(PROFILES, profiles);
+    updateSettings({ ...settings, profile: DEFAULT_PROFILE });
+  },
+};
+
+export function useMicSettings(): MicSettings {
+  return React.useSyncExternalStore(micSettings.subscribe, micSettings.get);
+}
+
+/** Audio inputs; labels are empty until mic permission has been granted once. */
+export async function listInputs(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const all = await navigator.mediaDevices.enumerateDevices();
+  return all.filter((d) => d.kind === "audioinput" && d.deviceId !== "default" && d.deviceId !== "communications");
+}
+
+/* ---------- calibration ---------- */
+
+export type Calibration =
+  | { ok: true; profile: MicProfile; hz: number }
+  | { ok: false; message: string };
+
+function quantile(xs: number[], q: number): number {
+  if (!xs.length) return 0;
+  const s = [...xs].sort((a, b) => a - b);
+  return s[Math.min(s.length - 1, Math.floor(q * s.length))];
+}
+
+function near(hz: number, target: number) {
+  return Math.abs(hz - target) < target * 0.03;
+}
+
+/**
+ * Derive a profile from two recordings of pitch events: the room in silence
+ * and one sustained sung/played note. Sets the noise floor, nudges pre-gain
+ * so the note lands around -20 dBFS, opens the filters around the note and
+ * turns on a hum notch when mains hum was heard in the silence.
+ */
+export function calibrateProfile(base: MicProfile, silence: PitchEvent[], note: PitchEvent[]): Calibration {
+  if (silence.length < 10 || note.length < 10) return { ok: false, message: "Not enough audio was captured. Try again." };
+  const floor = quantile(silence.map((e) => e.level), 0.9);
+
+  const voiced = note.filter((e) => e.hz != null && e.clarity >= 0.85);
+  if (voiced.length < note.length * 0.3) {
+    return { ok: false, message: "No steady note was heard. Sing or play one long note, closer to the mic." };
+  }
+  const noteLevel = quantile(voiced.map((e) => e.level), 0.5);
+  if (noteLevel < floor * 3) {
+    return { ok: false, message: "The note was barely louder than the room. Move closer or reduce background noise." };
+  }
+  const hz = quantile(voiced.map((e) => e.hz!), 0.5);
+
+  let gainDelta = 0;
+  if (noteLevel < 0.03) gainDelta = Math.round(20 * Math.log10(0.1 / noteLevel));
+  else if (noteLevel > 0.5) gainDelta = Math.round(20 * Math.log10(0.25 / noteLevel));
+  const [minGain, maxGain] = PROFILE_LIMITS.preGainDb;
+  const preGainDb = Math.min(maxGain, Math.max(minGain, base.preGainDb + gainDelta));
+  const applied = preGainDb - base.preGainDb;
+
+  const hum = (target: number) =>
+    silence.filter((e) => e.hz != null && (near(e.hz, target) || near(e.hz, target * 2))).length >= silence.length * 0.3;
+
+  return {
+    ok: true,
+    hz,
+    profile: {
+      ...base,
+      preGainDb,
+      noiseFloor: floor * Math.pow(10, applied / 20),
+      hpHz: hz < base.hpHz / 0.6 ? Math.max(PROFILE_LIMITS.hpHz[0], Math.round(hz * 0.6)) : base.hpHz,
+      lpHz: hz > base.lpHz * 0.7 ? Math.min(PROFILE_LIMITS.lpHz[1], Math.round(hz * 2)) : base.lpHz,
+      notch50: base.notch50 || hum(50),
+      notch60: base.notch60 || hum(60),
+    },
+  };
+}
+
+/* ---------- shared session ---------- */
+
+type Subscriber = {
+  onEvent: (e: PitchEvent) => void;
+  onError?: (err: unknown) => void;
+  detector: DetectorSpec;
+};
+
+const subscribers = new Set<Subscriber>();
+let opening: Promise<PitchTracker> | null = null;
+let tracker: PitchTracker | null = null;
+let sessionLowPass = 0; // low-pass the running session was opened with
+
+/** Distinct detectors the current subscribers asked for. */
+function activeDetectors(): DetectorSpec[] {
+  const byKey = new Map<string, DetectorSpec>();
+  subscribers.forEach((s) => byKey.set(detectorKey(s.detector), s.detector));
+  return Array.from(byKey.values());
+}
+
+function dispatch(frame: TrackerFrame) {
+  subscribers.forEach((s) => {
+    const est = frame.pitches[detectorKey(s.detector)];
+    if (est === undefined) return; // detector not running yet (just subscribed)
+    s.onEvent({ hz: est?.hz ?? null, clarity: est?.clarity ?? 0, level: frame.level, time: frame.time });
+  });
+}
+
+function open(useDefault = false) {
+  const detectors = activeDetectors();
+  const chosen = useDefault ? settingsFor("") : settings;
+  sessionLowPass = lowPassFor(chosen.profile, detectors);
+  const p = startPitchTracker(trackerOptions(chosen, detectors), dispatch);
+  opening = p;
+  p.then(
+    (t) => {
+      if (opening !== p) { t.stop(); return; } // everyone left (or the device changed) while it was opening
+      tracker = t;
+      syncDetectors(); // subscribers may have come or gone meanwhile
+    },
+    (err) => {
+      if (opening !== p) return;
+      opening = null;
+      // the chosen device is gone (unplugged): use the default input this time, keep the choice
+      if (!useDefault && settings.deviceId && isMissingDevice(err)) {
+        if (subscribers.size) open(true);
+        return;
+      }
+      subscribers.forEach((s) => s.onError?.(err));
+    }
+  );
+}
+
+/** Apply the subscribers' detectors; reopen when the filter chain has to change. */
+function syncDetectors() {
+  if (!opening) return;
+  const detectors = activeDetectors();
+  if (lowPassFor(settings.profile, detectors) !== sessionLowPass) { close(); open(); return; }
+  tracker?.setDetectors(detectors);
+}
+
+function isMissingDevice(err: unknown): boolean {
+  const name = (err as { name?: unknown } | null)?.name;
+  return name === "OverconstrainedError" || name === "NotFoundError";
+}
+
+function close() {
+  opening = null;
+  tracker?.stop();
+  tracker = null;
+}
+
+export type MicSubscription = {
+  /** Pitch algorithm and range for this subscriber (DEFAULT_DETECTOR when omitted). */
+  detector?: DetectorSpec;
+  /** The device couldn't be opened (permission denied, no AudioWorklet). */
+  onError?: (err: unknown) => void;
+};
+
+/**
+ * Receive pitch/level events from the shared mic. Opens the device if this is
+ * the first subscriber; the returned function unsubscribes and releases the
+ * device after the last one. Subscribers asking for different detectors share
+ * the stream; each detector runs once per hop.
+ */
+export function subscribeMic(onEvent: (e: PitchEvent) => void, opts: MicSubscription = {}): () => void {
+  const sub: Subscriber = { onEvent, onError: opts.onError, detector: opts.detector ?? DEFAULT_DETECTOR };
+  subscribers.add(sub);
+  if (!opening) open();
+  else syncDetectors();
+  return () => {
+    if (!subscribers.delete(sub)) return;
+    if (subscribers.size === 0) close();
+    else syncDetectors();
+  };
+}
+
+/** Subscribe to the shared mic while `active`; the latest callbacks are always used. */
+export function useMic(active: boolean, onEvent: (e: PitchEvent) => void, opts: MicSubscription = {}) {
+  const handlers = React.useRef({ onEvent, onError: opts.onError });
+  React.useEffect(() => { handlers.current = { onEvent, onError: opts.onError }; });
+
+  const detector = opts.detector ?? DEFAULT_DETECTOR;
+  const key = detectorKey(detector);
+  React.useEffect(() => {
+    if (!active) return;
+    return subscribeMic((e) => handlers.current.onEvent(e), {
+      detector,
+      onError: (err) => handlers.current.onError?.(err),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active, key]);
+}
@@ -22,27 +22,112 @@ export const PC_TO_NAME: Record<PitchClass, string> = {
   6:"F#", 7:"G", 8:"Ab", 9:"A", 10:"Bb", 11:"B"
 };
 
+// Natural letters in order, with their pitch classes
+export const LETTERS = ["C", "D", "E", "F", "G", "A", "B"] as const;
+const LETTER_PC: Record<string, PitchClass> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/** Map unicode / alternative accidentals onto plain ASCII ("x" and 𝄪 = "##", 𝄫 = "bb"). */
+function asciiAccidentals(s: string): string {
+  return s
+    .replace(/♯/g, "#")
+    .replace(/♭/g, "b")
+    .replace(/𝄪/g, "##")
+    .replace(/𝄫/g, "bb");
+}
+
 export function normalizeNoteInput(input: string): string {
   // Trim + allow unicode sharps/flats
   const raw = input.trim().replace(/\s+/g, "");
-  // Capture: letter + up to two accidentals
-  const m = raw.match(/^([A-Ga-g])([#♯b♭]{0,2})$/);
+  // Capture: letter + up to two accidentals of one kind ("x" = double sharp)
+  const m = raw.match(/^([A-Ga-g])([#♯b♭B𝄪𝄫x]*)$/u);
   if (!m) return "";
 
   const letter = m[1].toUpperCase();
-  const acc = m[2]
-    .replace(/♯/g, "#")
-    .replace(/♭/g, "b")
+  const acc = asciiAccidentals(m[2])
+    .replace(/x/g, "##")
     // keep # as '#', and make any 'b' accidental lowercase
     .replace(/B/g, "b");
 
+  if (!/^(#{0,2}|b{1,2})$/.test(acc)) return "";
   return letter + acc;
 }
 
+/**
+ * Live input filter: keeps 1 note letter + up to two accidentals of the same kind
+ * (+ one octave digit 0-8 when `withOctave`).
+ * Accepts #, b, ♯, ♭, x/𝄪 (double sharp) and 𝄫 (double flat); "B" after the letter reads as a flat.
+ */
+export function sanitizeNoteInput(raw: string, withOctave = false): string {
+  if (!raw) return "";
+  const s = asciiAccidentals(raw.replace(/\s+/g, "")).replace(/x/g, "##");
+  const m = s.match(/[A-Ga-g]/);
+  if (!m) return "";
+  const note = m[0].toUpperCase();
+  const rest = s.slice(m.index! + 1);
+  const accs = (rest.match(/[#bB]/g) ?? []).map((c) => (c === "B" ? "b" : c));
+  const run = accs.length ? accs.filter((c) => c === accs[0]).slice(0, 2).join("") : "";
+  const oct = withOctave ? (rest.match(/[0-8]/)?.[0] ?? "") : "";
+  return note + run + oct;
+}
+
+/** Split "Eb5" into a normalized name + octave (octave is null when absent). */
+export function parseNote(input: string): { name: string; octave: number | null } | null {
+  const m = input.trim().replace(/\s+/g, "").match(/^(.*?)(-?\d)?$/);
+  if (!m) return null;
+  const name = normalizeNoteInput(m[1]);
+  if (!name) return null;
+  return { name, octave: m[2] != null ? Number(m[2]) : null };
+}
+
+/**
+ * MIDI number of a spelled note in scientific pitch notation (C4 = 60).
+ * The octave follows the letter, so B#3 = 60 and Cb4 = 59.
+ */
+export function noteToMidi(name: string, octave: number): number | null {
+  const n = normalizeNoteInput(name);
+  if (!n) return null;
+  const offset = n.slice(1).split("").reduce((a, c) => a + (c === "#" ? 1 : -1), 0);
+  return (octave + 1) * 12 + LETTER_PC[n[0]] + offset;
+}
+
+/** Octave number for a spelled name sounding at the given MIDI note (inverse of noteToMidi). */
+export function spelledOctave(name: string, midi: number): number {
+  const base = noteToMidi(name, -1) ?? 0;
+  return Math.round((midi - base) / 12) - 1;
+}
 
 export function toPitchClass(name: string): PitchClass | null {
   const n = normalizeNoteInput(name);
-  return n in NAME_TO_PC ? NAME_TO_PC[n] : null;
+  if (!n) return null;
+  const offset = n.slice(1).split("").reduce((a, c) => a + (c === "#" ? 1 : -1), 0);
+  return addSemitones(LETTER_PC[n[0]], offset);
+}
+
+/**
+ * Spell the note a given interval away from a root, honouring letter distance.
+ * `number` is the generic interval (3 = third, 9 = ninth …), `semitones` its size mod 12.
+ * e.g. spellInterval("C#", 3, 4, "up") = "E#", spellInterval("Db", 3, 4, "up") = "F".
+ * Returns null when the spelling would need more than a double accidental.
+ */
+export function spellInterval(
+  root: string,
+  number: number,
+  semitones: number,
+  dir: "up" | "down" = "up"
+): string | null {
+  const r = normalizeNoteInput(root);
+  if (!r) return null;
+  const rootPc = toPitchClass(r)!;
+  const steps = ((number - 1) % 7) * (dir === "up" ? 1 : -1);
+  const li = (LETTERS as readonly string[]).indexOf(r[0]);
+  const letter = LETTERS[(((li + steps) % 7) + 7) % 7];
+  const targetPc = addSemitones(rootPc, dir === "up" ? semitones : -semitones);
+
+  let acc = targetPc - LETTER_PC[letter];
+  if (acc > 6) acc -= 12;
+  if (acc < -6) acc += 12;
+  if (Math.abs(acc) > 2) return null;
+  return letter + (acc > 0 ? "#".repeat(acc) : "b".repeat(-acc));
 }
 
 export function addSemitones(rootPc: PitchClass, delta: number): PitchClass {
@@ -51,6 +136,12 @@ export function addSemitones(rootPc: PitchClass, delta: number): PitchClass {
   return v % 12;
 }
 
+// Strict: same letter and accidentals (after normalizing input forms)
+export function isSameSpelling(a: string, b: string): boolean {
+  const na = normalizeNoteInput(a);
+  return na !== "" && na === normalizeNoteInput(b);
+}
+
 // Accept enharmonics: compare by pitch class
 export function isEnharmonicallyEqual(a: string, b: string): boolean {
   const apc = toPitchClass(a);
@@ -58,6 +149,16 @@ export function isEnharmonicallyEqual(a: string, b: string): boolean {
   return apc !== null && apc === bpc;
 }
 
+/** Spoken form for screen readers: "Bb4" -> "B flat 4", "F#" -> "F sharp". */
+export function spokenNote(name: string): string {
+  return name
+    .replace(/^([A-Ga-g])(##|x|bb|#|b)?/, (_, l: string, acc?: string) => {
+      const words: Record<string, string> = { "#": " sharp", "##": " double sharp", x: " double sharp", b: " flat", bb: " double flat" };
+      return l.toUpperCase() + (acc ? words[acc] : "");
+    })
+    .replace(/(\D)(-?\d+)$/, "$1 $2");
+}
+
 // Random helpers
 export function randomOf<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
@@ -0,0 +1,65 @@
+// src/utils/noteHold.test.ts
+// When a held mic note counts as a right or a wrong answer. Run with `npm test`.
+
+import { describe, expect, it } from "vitest";
+import { HoldVerdict, NoteHold } from "./noteHold";
+
+const HOLD = 500;
+const FRAME = 20; // ms, one analysis hop
+
+/** Feed `ms` of frames on one pitch class; returns the verdicts that fired. */
+function hold(h: NoteHold, pc: number, inRange: boolean, ms: number, outRange = !inRange): HoldVerdict[] {
+  const out: HoldVerdict[] = [];
+  for (let t = 0; t < ms; t += FRAME) {
+    const v = h.push(pc, inRange, outRange, FRAME);
+    if (v) out.push(v);
+  }
+  return out;
+}
+
+describe("NoteHold", () => {
+  it("counts a note held in tune for holdMs as correct", () => {
+    const h = new NoteHold(HOLD);
+    expect(hold(h, 9, true, HOLD - FRAME)).toEqual([]);
+    expect(hold(h, 9, true, FRAME)).toEqual(["correct"]);
+  });
+
+  it("counts a wrong note held for holdMs as one miss, however long it lasts", () => {
+    const h = new NoteHold(HOLD);
+    expect(hold(h, 2, false, HOLD - FRAME)).toEqual([]);
+    expect(hold(h, 2, false, 3 * HOLD)).toEqual(["miss"]);
+  });
+
+  it("reports a miss with each new wrong note", () => {
+    const h = new NoteHold(HOLD);
+    expect(hold(h, 2, false, HOLD)).toEqual(["miss"]);
+    expect(hold(h, 4, false, HOLD)).toEqual(["miss"]);
+  });
+
+  it("reports the same wrong note again after a break", () => {
+    const h = new NoteHold(HOLD);
+    expect(hold(h, 2, false, HOLD)).toEqual(["miss"]);
+    h.reset();
+    expect(hold(h, 2, false, HOLD)).toEqual(["miss"]);
+  });
+
+  it("does not count a wrong note passed through on the way to the right one", () => {
+    const h = new NoteHold(HOLD);
+    expect(hold(h, 8, false, HOLD / 2)).toEqual([]);
+    expect(hold(h, 9, true, HOLD)).toEqual(["correct"]);
+  });
+
+  it("keeps timing through the hysteresis band", () => {
+    const h = new NoteHold(HOLD);
+    expect(hold(h, 9, true, HOLD / 2)).toEqual([]);
+    expect(hold(h, 9, false, 100, false)).toEqual([]); // neither in nor clearly out of tune
+    expect(hold(h, 9, true, HOLD / 2)).toEqual(["correct"]);
+  });
+
+  it("restarts the in-tune hold after a clearly wrong frame", () => {
+    const h = new NoteHold(HOLD);
+    expect(hold(h, 9, true, HOLD - FRAME)).toEqual([]);
+    expect(hold(h, 10, false, FRAME)).toEqual([]);
+    expect(hold(h, 9, true, HOLD - FRAME)).toEqual([]);
+  });
+});
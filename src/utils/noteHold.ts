@@ -0,0 +1,53 @@
+// src/utils/noteHold.ts
+// When a sung/played note counts as an answer (MicAnswer): held in tune for
+// `holdMs` it is correct; held just as long on another pitch class it is a
+// miss, reported once per settled note so a long wrong note is one attempt.
+
+export type HoldVerdict = "correct" | "miss" | null;
+
+export class NoteHold {
+  private holdMs: number;
+  private inTuneMs = 0;
+  private offMs = 0;
+  private offPc: number | null = null;    // pitch class of the wrong note being held
+  private missedPc: number | null = null; // last one reported, until the note changes or stops
+
+  constructor(holdMs: number) {
+    this.holdMs = holdMs;
+  }
+
+  /**
+   * One pitched frame: the heard pitch class, whether it is within the
+   * tolerance, whether it is clearly outside it (past the hysteresis band),
+   * and the frame's duration.
+   */
+  push(heardPc: number, inRange: boolean, outRange: boolean, dtMs: number): HoldVerdict {
+    if (inRange) {
+      this.offMs = 0;
+      this.offPc = null;
+      this.inTuneMs += dtMs;
+      if (this.inTuneMs < this.holdMs) return null;
+      this.inTuneMs = 0;
+      return "correct";
+    }
+    if (!outRange) return null; // in the hysteresis band: keep both timers
+
+    this.inTuneMs = 0;
+    if (heardPc !== this.offPc) {
+      this.offPc = heardPc;
+      this.offMs = 0;
+    }
+    this.offMs += dtMs;
+    if (this.offMs < this.holdMs || this.missedPc === heardPc) return null;
+    this.missedPc = heardPc;
+    return "miss";
+  }
+
+  /** Silence or no stable pitch: the next note starts afresh. */
+  reset() {
+    this.inTuneMs = 0;
+    this.offMs = 0;
+    this.offPc = null;
+    this.missedPc = null;
+  }
+}
@@ -0,0 +1,224 @@
+// src/utils/persist.ts
+// Central persistence for everything kept in localStorage.
+// Each key is described by a Schema: its current version, a parser that
+// validates (and coerces) what was read, and migrations that carry older
+// shapes forward. Values are stored as { v, data }; anything without that
+// envelope is treated as version 0 (written before this module existed).
+
+import React from "react";
+
+/** Validate/coerce stored data; return undefined to reject it. */
+export type Parser<T> = (data: unknown) => T | undefined;
+
+export type Schema<T> = {
+  key: string;
+  version: number;
+  fallback: T;
+  parse: Parser<T>;
+  /** Convert to something JSON-friendly (e.g. Set -> array). A method, so any Schema<T> is a Schema<unknown>. */
+  serialize?(value: T): unknown;
+  /** migrations[n] turns version-n data into version n+1 (0 = unversioned legacy value). */
+  migrations?: Record<number, (data: unknown) => unknown>;
+  /** Older key names, read (and then removed) when `key` is empty. */
+  legacyKeys?: string[];
+  /** "data" = progress/history (stats, schedules, logs); left out of layout snapshots. */
+  kind?: "settings" | "data";
+  /** Stored once per tile (modules that can be added more than once); see TileScope. */
+  perTile?: boolean;
+  /** Keys read when `key` is empty but left in place (a tile's copy starts from the shared value). */
+  seedKeys?: string[];
+};
+
+type Envelope = { v: number; data: unknown };
+
+function isEnvelope(x: unknown): x is Envelope {
+  if (!x || typeof x !== "object" || Array.isArray(x)) return false;
+  const keys = Object.keys(x);
+  return keys.length === 2 && typeof (x as Envelope).v === "number" && "data" in x;
+}
+
+// keys of every settings schema read so far (i.e. of modules that have been mounted)
+const settingsKeys = new Set<string>();
+
+// per-tile keys are "<key>@<tile id>"
+const SCOPE_SEP = "@";
+
+/** Id of the tile being rendered; App provides it around each tile. */
+export const TileScope = React.createContext<string | null>(null);
+
+/** The schema as stored for one tile: its own key, seeded from the shared one. */
+export function scopedSchema<T>(schema: Schema<T>, scope: string | null): Schema<T> {
+  if (!schema.perTile || !scope) return schema;
+  return {
+    ...schema,
+    key: `${schema.key}${SCOPE_SEP}${scope}`,
+    legacyKeys: undefined,
+    seedKeys: [schema.key, ...(schema.legacyKeys ?? [])],
+  };
+}
+
+/** scopedSchema for the current tile, stable across renders. */
+export function useTileSchema<T>(schema: Schema<T>): Schema<T> {
+  const scope = React.useContext(TileScope);
+  return React.useMemo(() => scopedSchema(schema, scope), [schema, scope]);
+}
+
+function readRaw(key: string): string | null {
+  try { return localStorage.getItem(key); } catch { return null; }
+}
+
+function decode(raw: string): Envelope {
+  let parsed: unknown;
+  try { parsed = JSON.parse(raw); } catch { parsed = raw; } // legacy plain strings ("sine", "C#")
+  return isEnvelope(parsed) ? parsed : { v: 0, data: parsed };
+}
+
+export function save<T>(schema: Schema<T>, value: T) {
+  const data = schema.serialize ? schema.serialize(value) : value;
+  try { localStorage.setItem(schema.key, JSON.stringify({ v: schema.version, data })); } catch {}
+}
+
+export function remove<T>(schema: Schema<T>) {
+  try { localStorage.removeItem(schema.key); } catch {}
+}
+
+/**
+ * Read a value: fall back to legacy keys, run pending migrations, validate.
+ * Corrupt or unrecognised data yields the fallback instead of throwing.
+ * Migrated values are written back in the current format.
+ */
+export function load<T>(schema: Schema<T>): T {
+  if (schema.kind !== "data") settingsKeys.add(schema.key);
+  const keys = [schema.key, ...(schema.legacyKeys ?? []), ...(schema.seedKeys ?? [])];
+  const foundKey = keys.find((k) => readRaw(k) != null);
+  if (!foundKey) return schema.fallback;
+
+  try {
+    const stored = decode(readRaw(foundKey)!);
+    let data = stored.data; // data from a newer build is parsed as-is
+    for (let v = stored.v; v < schema.version; v++) {
+      const step = schema.migrations?.[v];
+      if (step) data = step(data);
+    }
+    const value = schema.parse(data);
+    if (value === undefined) throw new Error("failed validation");
+
+    if (foundKey !== schema.key || stored.v < schema.version) {
+      save(schema, value);
+      if (schema.legacyKeys?.includes(foundKey)) try { localStorage.removeItem(foundKey); } catch {}
+    }
+    return value;
+  } catch {
+    return schema.fallback; // unreadable or invalid: use the default
+  }
+}
+
+/** Drop every per-tile value stored for a tile (after it was removed). */
+export function clearScope(scope: string) {
+  try {
+    const suffix = `${SCOPE_SEP}${scope}`;
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i));
+    keys.forEach((k) => { if (k?.endsWith(suffix)) localStorage.removeItem(k); });
+  } catch {}
+}
+
+/**
+ * Raw stored settings whose key starts with one of `prefixes`; per-tile values
+ * only for the tiles in `scopes`.
+ * Values keep their envelope, so restoring them later still runs migrations.
+ */
+export function snapshotSettings(prefixes: string[], scopes: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  settingsKeys.forEach((key) => {
+    if (!prefixes.some((p) => key.startsWith(p))) return;
+    const at = key.indexOf(SCOPE_SEP);
+    if (at >= 0 && !scopes.includes(key.slice(at + 1))) return;
+    const raw = readRaw(key);
+    if (raw != null) out[key] = raw;
+  });
+  return out;
+}
+
+export function restoreSettings(snapshot: Record<string, string>) {
+  Object.entries(snapshot).forEach(([key, raw]) => {
+    try { localStorage.setItem(key, raw); } catch {}
+  });
+}
+
+/**
+ * useState backed by a schema. Pass a module-level schema so the identity is stable.
+ * perTile schemas are stored under the enclosing tile's id.
+ */
+export function usePersistentState<T>(base: Schema<T>): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const schema = useTileSchema(base);
+  const [value, setValue] = React.useState<T>(() => load(schema));
+  React.useEffect(() => { save(schema, value); }, [schema, value]);
+  return [value, setValue];
+}
+
+/* ---------- parsers ---------- */
+
+/** Finite number (numeric strings accepted), clamped into [min, max]. */
+export function numberIn(min: number, max: number): Parser<number> {
+  return (d) => {
+    const n = typeof d === "string" && d.trim() !== "" ? Number(d) : d;
+    return typeof n === "number" && Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : undefined;
+  };
+}
+
+export function intIn(min: number, max: number): Parser<number> {
+  const num = numberIn(min, max);
+  return (d) => {
+    const n = num(d);
+    return n === undefined ? undefined : Math.round(n);
+  };
+}
+
+export const boolean: Parser<boolean> = (d) => {
+  if (d === true || d === "true" || d === 1 || d === "1") return true;
+  if (d === false || d === "false" || d === 0 || d === "0") return false;
+  return undefined;
+};
+
+export const string: Parser<string> = (d) => (typeof d === "string" ? d : undefined);
+
+export function oneOf<T extends string | number>(values: readonly T[]): Parser<T> {
+  return (d) => values.find((v) => v === d || String(v) === d);
+}
+
+/** Array whose invalid items are dropped (the array itself must be an array). */
+export function arrayOf<T>(item: Parser<T>): Parser<T[]> {
+  return (d) => {
+    if (!Array.isArray(d)) return undefined;
+    return d.map(item).filter((x): x is T => x !== undefined);
+  };
+}
+
+export function setOf<T>(item: Parser<T>): Parser<Set<T>> {
+  const arr = arrayOf(item);
+  return (d) => {
+    const a = arr(d);
+    return a && new Set(a);
+  };
+}
+
+/** Plain object (not an array or null). */
+export function isRecord(d: unknown): d is Record<string, unknown> {
+  return !!d && typeof d === "object" && !Array.isArray(d);
+}
+
+/**
+ * Object with per-field parsers; missing or invalid fields take the fallback's value.
+ * Unknown fields are dropped.
+ */
+export function shape<T extends object>(fields: { [K in keyof T]: Parser<T[K]> }, fallback: T): Parser<T> {
+  return (d) => {
+    if (!isRecord(d)) return undefined;
+    const out = { ...fallback };
+    (Object.keys(fields) as (keyof T)[]).forEach((k) => {
+      const v = fields[k](d[k as string]);
+      if (v !== undefined) out[k] = v;
+    });
+    return out;
+  };
+}
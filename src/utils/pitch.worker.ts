@@ -0,0 +1,81 @@
+// src/utils/pitch.worker.ts
+// Pitch worker: receives raw hop-sized frames straight from the frame-tap
+// worklet, keeps a sliding analysis window (window - hop samples of overlap)
+// and posts one TrackerFrame per hop with the result of every requested
+// detector. If analysis falls behind, queued frames are folded into the
+// window and only the newest window is analysed.
+
+import type { TapFrame } from "./frameTap.worklet";
+import { DetectorSpec, PitchEstimate, detectorKey, rmsOf, runDetector } from "./pitchDetect";
+
+export type PitchWorkerConfig = {
+  sampleRate: number;
+  windowSize: number;
+  /** Window RMS below this counts as silence (no pitch). */
+  gate: number;
+};
+
+export type PitchWorkerMessage =
+  | { type: "init"; port: MessagePort; config: PitchWorkerConfig; detectors: DetectorSpec[] }
+  | { type: "detectors"; detectors: DetectorSpec[] };
+
+export type TrackerFrame = {
+  /** detectorKey(spec) -> estimate (null = no pitch or below the gate). */
+  pitches: Record<string, PitchEstimate | null>;
+  /** RMS of the newest audio since the previous frame. */
+  level: number;
+  /** AudioContext time (seconds) of the newest frame. */
+  time: number;
+};
+
+let config: PitchWorkerConfig | null = null;
+let detectors: DetectorSpec[] = [];
+let win = new Float32Array(0);
+let sumSq = 0;
+let count = 0;
+let time = 0;
+let pending = false;
+
+self.onmessage = (e: MessageEvent<PitchWorkerMessage>) => {
+  const msg = e.data;
+  detectors = msg.detectors;
+  if (msg.type === "init") {
+    config = msg.config;
+    win = new Float32Array(config.windowSize);
+    msg.port.onmessage = (m: MessageEvent<TapFrame>) => push(m.data);
+  }
+};
+
+function push({ frame, time: t }: TapFrame) {
+  if (frame.length >= win.length) {
+    win.set(frame.subarray(frame.length - win.length));
+  } else {
+    win.copyWithin(0, frame.length);
+    win.set(frame, win.length - frame.length);
+  }
+  for (let i = 0; i < frame.length; i++) sumSq += frame[i] * frame[i];
+  count += frame.length;
+  time = t;
+
+  // let frames already queued land first, then analyse once
+  if (!pending) {
+    pending = true;
+    setTimeout(analyse, 0);
+  }
+}
+
+function analyse() {
+  pending = false;
+  if (!config) return;
+  const level = count ? Math.sqrt(sumSq / count) : 0;
+  sumSq = 0;
+  count = 0;
+
+  const silent = rmsOf(win) < config.gate;
+  const pitches: Record<string, PitchEstimate | null> = {};
+  detectors.forEach((spec) => {
+    pitches[detectorKey(spec)] = silent ? null : runDetector(spec, win, config!.sampleRate);
+  });
+  const frame: TrackerFrame = { pitches, level, time };
+  postMessage(frame);
+}
@@ -0,0 +1,253 @@
+// src/utils/pitchDetect.test.ts
+// Offline checks for the pitch detectors: synthetic tones, harmonic-rich and
+// octave-trap waveforms, noise, vibrato, and the WAV clips in
+// __fixtures__/pitch (named "<label>.<expected Hz>hz.wav"). Run with `npm test`.
+//
+// When changing a threshold (e.g. YIN's 0.12), these are the cases that must
+// keep passing: cent accuracy on clean tones and no octave errors on the traps.
+
+import { describe, expect, it } from "vitest";
+import { detectPitchHzACF, detectPitchHzYIN } from "./audio";
+import { DETECTORS, yinDifference } from "./pitchDetect";
+
+const SR = 48000;
+const WINDOW = 4096;
+
+type Detect = (buf: Float32Array, sampleRate: number) => number | null;
+
+const yinUpTo = (maxHz: number): Detect => (buf, sr) => detectPitchHzYIN(buf, sr, 30, maxHz);
+const mpmUpTo = (maxHz: number): Detect => (buf, sr) => DETECTORS.mpm.detect(buf, sr, { minHz: 30, maxHz })?.hz ?? null;
+
+/* ---------- signals ---------- */
+
+/** Deterministic noise in [-1, 1) so failures reproduce. */
+function noiseSource(seed = 1): () => number {
+  let s = seed >>> 0;
+  return () => ((s = (s * 1664525 + 1013904223) >>> 0) / 2 ** 32) * 2 - 1;
+}
+
+/** Sum of harmonics of f0: amps[k] is the amplitude of harmonic k+1. */
+function harmonics(f0: number, amps: number[], n = WINDOW, sr = SR, amp = 0.3): Float32Array {
+  const out = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    let v = 0;
+    amps.forEach((a, k) => { if (a) v += a * Math.sin(2 * Math.PI * f0 * (k + 1) * i / sr + k * 0.7); });
+    out[i] = amp * v;
+  }
+  return out;
+}
+
+const sine = (f0: number, n?: number, sr?: number) => harmonics(f0, [1], n, sr);
+const saw = (f0: number) => harmonics(f0, Array.from({ length: 20 }, (_, k) => 1 / (k + 1)));
+const square = (f0: number) => harmonics(f0, Array.from({ length: 20 }, (_, k) => (k % 2 === 0 ? 1 / (k + 1) : 0)));
+
+function addNoise(buf: Float32Array, level: number, seed = 7): Float32Array {
+  const rnd = noiseSource(seed);
+  return buf.map((v) => v + level * rnd());
+}
+
+/** Detections over a long signal, one per hop. */
+function track(signal: Float32Array, sr: number, detect: Detect, hop = 1024, win = WINDOW): (number | null)[] {
+  const out: (number | null)[] = [];
+  for (let start = 0; start + win <= signal.length; start += hop) out.push(detect(signal.subarray(start, start + win), sr));
+  return out;
+}
+
+/* ---------- measures ---------- */
+
+const cents = (hz: number, ref: number) => 1200 * Math.log2(hz / ref);
+
+/** An octave (or worse) error: more than half an octave away. */
+const octaveOk = (hz: number, ref: number) => Math.abs(cents(hz, ref)) < 600;
+
+function median(xs: number[]): number {
+  const s = [...xs].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+function expectPitch(hz: number | null, ref: number, tolCents: number) {
+  expect(hz, `no pitch, expected ${ref} Hz`).not.toBeNull();
+  expect(Math.abs(cents(hz!, ref)), `${hz!.toFixed(2)} Hz vs ${ref} Hz`).toBeLessThan(tolCents);
+}
+
+/* ---------- WAV fixtures ---------- */
+
+/** Mono samples from a PCM16 / PCM24 / float32 WAV (channels are averaged). */
+function decodeWav(bytes: Uint8Array): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+  if (tag(0) !== "RIFF" || tag(8) !== "WAVE") throw new Error("not a WAV file");
+
+  let format = 0, channels = 0, sampleRate = 0, bits = 0;
+  let at = 12;
+  while (at + 8 <= bytes.length) {
+    const id = tag(at);
+    const size = view.getUint32(at + 4, true);
+    const body = at + 8;
+    if (id === "fmt ") {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bits = view.getUint16(body + 14, true);
+    } else if (id === "data") {
+      const width = bits / 8;
+      const frames = Math.floor(size / (width * channels));
+      const samples = new Float32Array(frames);
+      for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          const p = body + (f * channels + c) * width;
+          if (format === 3 && bits === 32) sum += view.getFloat32(p, true);
+          else if (bits === 16) sum += view.getInt16(p, true) / 32768;
+          else if (bits === 24) sum += ((view.getUint8(p) | (view.getUint8(p + 1) << 8) | (view.getInt8(p + 2) << 16)) / 8388608);
+          else throw new Error(`unsupported WAV: format ${format}, ${bits} bit`);
+        }
+        samples[f] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    at = body + size + (size % 2);
+  }
+  throw new Error("WAV without data chunk");
+}
+
+function base64Bytes(dataUrl: string): Uint8Array {
+  const bin = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+const FIXTURES = Object.entries(
+  import.meta.glob<string>("./__fixtures__/pitch/*.wav", { query: "?inline", import: "default", eager: true })
+).map(([path, url]) => {
+  const name = path.split("/").pop()!;
+  const expected = Number(/\.([\d.]+)hz\.wav$/i.exec(name)?.[1]);
+  return { name, expected, ...decodeWav(base64Bytes(url)) };
+});
+
+/* ---------- tests ---------- */
+
+describe("FFT difference function", () => {
+  it("matches the direct O(N·τ) sum", () => {
+    const buf = addNoise(saw(196), 0.05);
+    const d = yinDifference(buf, 1600);
+    for (let tau = 1; tau <= 1600; tau += 53) {
+      let sum = 0;
+      for (let i = 0; i < buf.length - tau; i++) sum += (buf[i] - buf[i + tau]) ** 2;
+      expect(d[tau]).toBeCloseTo(sum, 6);
+    }
+  });
+});
+
+const NOTES = [41.2, 55, 82.41, 110, 146.83, 196, 261.63, 329.63, 440, 587.33, 783.99];
+
+describe.each([
+  ["YIN", yinUpTo(1200)],
+  ["MPM", mpmUpTo(1200)],
+])("%s", (_name, detect) => {
+  it.each(NOTES)("pure sine %s Hz within 3 cents", (f0) => {
+    expectPitch(detect(sine(f0), SR), f0, 3);
+  });
+
+  it.each([44100, 22050])("works at %s Hz sample rate", (sr) => {
+    expectPitch(detect(sine(220, WINDOW, sr), sr), 220, 3);
+  });
+
+  it.each(NOTES)("sawtooth %s Hz within 5 cents", (f0) => {
+    expectPitch(detect(saw(f0), SR), f0, 5);
+  });
+
+  it.each(NOTES)("square %s Hz within 5 cents", (f0) => {
+    expectPitch(detect(square(f0), SR), f0, 5);
+  });
+
+  it.each([55, 110, 220, 440])("sine %s Hz in noise (SNR ≈ 20 dB) within 10 cents", (f0) => {
+    expectPitch(detect(addNoise(sine(f0), 0.05), SR), f0, 10);
+  });
+
+  it("returns no pitch for white noise", () => {
+    const noise = addNoise(new Float32Array(WINDOW), 0.3, 99);
+    expect(detect(noise, SR)).toBeNull();
+  });
+
+  describe("octave traps", () => {
+    it.each([65.41, 110, 220])("missing fundamental at %s Hz reads as the fundamental", (f0) => {
+      expectPitch(detect(harmonics(f0, [0, 1, 0.8, 0.6, 0.5, 0.4]), SR), f0, 10);
+    });
+
+    it.each([82.41, 146.83, 293.66])("2nd harmonic 3× the fundamental at %s Hz is not an octave up", (f0) => {
+      expectPitch(detect(harmonics(f0, [1, 3, 0.5]), SR), f0, 10);
+    });
+
+    it.each([110, 196, 330])("slight period-doubling at %s Hz is not an octave down", (f0) => {
+      // a weak component at f0/2 (as from a rattling reed or a cracked voice)
+      const buf = harmonics(f0 / 2, [0.08, 1, 0, 0.5]);
+      expectPitch(detect(buf, SR), f0, 10);
+    });
+
+    it("bass E1 with a strong 2nd and 3rd harmonic", () => {
+      expectPitch(detect(harmonics(41.2, [0.5, 1, 0.9, 0.4, 0.3]), SR), 41.2, 10);
+    });
+  });
+
+  it("follows vibrato without octave errors", () => {
+    const f0 = 220, depth = 30, rate = 5.5;
+    const n = SR; // one second
+    const buf = new Float32Array(n);
+    let ph = 0;
+    for (let i = 0; i < n; i++) {
+      ph += 2 * Math.PI * f0 * Math.pow(2, depth * Math.sin(2 * Math.PI * rate * i / SR) / 1200) / SR;
+      buf[i] = 0.3 * (Math.sin(ph) + 0.5 * Math.sin(2 * ph) + 0.3 * Math.sin(3 * ph));
+    }
+    const hz = track(buf, SR, detect).filter((x): x is number => x != null);
+    expect(hz.length).toBeGreaterThan(35);
+    hz.forEach((x) => expect(Math.abs(cents(x, f0))).toBeLessThan(depth + 10));
+    expect(Math.abs(cents(median(hz), f0))).toBeLessThan(5);
+  });
+});
+
+describe("high notes (whistles)", () => {
+  it.each([1046.5, 1568, 2093, 3136])("MPM reads %s Hz within 3 cents", (f0) => {
+    expectPitch(mpmUpTo(4000)(addNoise(sine(f0), 0.02), SR), f0, 3);
+  });
+
+  it.each([1046.5, 1568, 2093])("YIN reads %s Hz within 10 cents", (f0) => {
+    expectPitch(yinUpTo(4000)(sine(f0), SR), f0, 10);
+  });
+});
+
+describe("detectPitchHzYIN gate", () => {
+  it("ignores signals below the RMS gate", () => {
+    expect(detectPitchHzYIN(sine(220).map((v) => v * 0.01), SR)).toBeNull();
+  });
+});
+
+describe("detectPitchHzACF", () => {
+  it.each([110, 220, 440, 880])("sine %s Hz within 5 cents", (f0) => {
+    expectPitch(detectPitchHzACF(sine(f0), SR), f0, 5);
+  });
+
+  it.each([110, 220, 440])("sawtooth %s Hz within 10 cents", (f0) => {
+    expectPitch(detectPitchHzACF(saw(f0), SR), f0, 10);
+  });
+});
+
+describe("WAV fixtures", () => {
+  it("are present and named with their pitch", () => {
+    expect(FIXTURES.length).toBeGreaterThan(0);
+    FIXTURES.forEach((f) => expect(f.expected, f.name).toBeGreaterThan(0));
+  });
+
+  describe.each(FIXTURES)("$name", ({ samples, sampleRate, expected }) => {
+    it.each([
+      ["YIN", yinUpTo(2500)],
+      ["MPM", mpmUpTo(2500)],
+    ])("%s: pitched, octave-correct, median within 10 cents", (_name, detect) => {
+      const all = track(samples, sampleRate, detect);
+      const hz = all.filter((x): x is number => x != null);
+      expect(hz.length, "frames with a pitch").toBeGreaterThanOrEqual(all.length * 0.8);
+      hz.forEach((x) => expect(octaveOk(x, expected), `${x.toFixed(1)} Hz`).toBe(true));
+      expect(Math.abs(cents(median(hz), expected))).toBeLessThan(10);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+// src/utils/pitchDetect.ts
+// Pitch detection on plain sample buffers. No WebAudio here, so the same code
+// runs in the pitch worker, in the audio.ts helpers and in tests.
+// Lag sums (autocorrelation) are computed with an FFT, O(N log N) instead of
+// the O(N·τ) double loop.
+
+export type PitchEstimate = {
+  hz: number;
+  /** 0..1, how periodic the frame is (YIN: 1 - normalized difference; MPM: NSDF peak). */
+  clarity: number;
+};
+
+/** A detector: buffer in, best period out (null = no clear pitch). No level gate. */
+export type PitchDetector = (buf: Float32Array, sampleRate: number, opts: DetectorOptions) => PitchEstimate | null;
+
+export type DetectorOptions = {
+  minHz: number;
+  maxHz: number;
+  /** Detector-specific; see DETECTORS for what it means and its default. */
+  threshold?: number;
+};
+
+export type DetectorId = "yin" | "mpm";
+
+export type DetectorSpec = DetectorOptions & { detector: DetectorId };
+
+export const DETECTORS: Record<DetectorId, { label: string; detect: PitchDetector; threshold: number }> = {
+  // threshold: CMND dip that counts as periodic (lower = stricter)
+  yin: { label: "YIN", detect: (b, sr, o) => yin(b, sr, o.minHz, o.maxHz, o.threshold), threshold: 0.12 },
+  // threshold: fraction of the highest NSDF peak the chosen peak must reach (k)
+  mpm: { label: "McLeod (MPM)", detect: (b, sr, o) => mpm(b, sr, o.minHz, o.maxHz, o.threshold), threshold: 0.93 },
+};
+
+/** Stable id of a spec (detectors with equal specs are run once). */
+export function detectorKey(spec: DetectorSpec): string {
+  return `${spec.detector}:${spec.minHz}:${spec.maxHz}:${spec.threshold ?? DETECTORS[spec.detector].threshold}`;
+}
+
+export function runDetector(spec: DetectorSpec, buf: Float32Array, sampleRate: number): PitchEstimate | null {
+  return DETECTORS[spec.detector].detect(buf, sampleRate, spec);
+}
+
+/** Root-mean-square level of a buffer. */
+export function rmsOf(buf: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < buf.length; i++) sum += buf[i] * buf[i];
+  return buf.length ? Math.sqrt(sum / buf.length) : 0;
+}
+
+/* ---------- FFT autocorrelation ---------- */
+
+/** In-place iterative radix-2 FFT; re/im length must be a power of two. */
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = -2 * Math.PI / len;
+    const wRe = Math.cos(ang), wIm = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cRe = 1, cIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k, b = a + len / 2;
+        const tRe = re[b] * cRe - im[b] * cIm;
+        const tIm = re[b] * cIm + im[b] * cRe;
+        re[b] = re[a] - tRe; im[b] = im[a] - tIm;
+        re[a] += tRe; im[a] += tIm;
+        const nRe = cRe * wRe - cIm * wIm;
+        cIm = cRe * wIm + cIm * wRe;
+        cRe = nRe;
+      }
+    }
+  }
+}
+
+// scratch buffers by FFT size (the worker calls this ~50×/s with the same size)
+const scratch = new Map<number, { re: Float64Array; im: Float64Array }>();
+
+/** r[τ] = Σ buf[i]·buf[i+τ] for τ = 0..maxLag (linear, not circular). */
+export function autocorrelation(buf: Float32Array, maxLag: number): Float64Array {
+  const N = buf.length;
+  let size = 1;
+  while (size < N + maxLag) size <<= 1;
+  let s = scratch.get(size);
+  if (!s) { s = { re: new Float64Array(size), im: new Float64Array(size) }; scratch.set(size, s); }
+  const { re, im } = s;
+  re.fill(0); im.fill(0);
+  re.set(buf);
+
+  fft(re, im);
+  for (let i = 0; i < size; i++) { re[i] = re[i] * re[i] + im[i] * im[i]; im[i] = 0; }
+  // inverse via the forward transform of the (real, symmetric) power spectrum
+  fft(re, im);
+
+  const r = new Float64Array(maxLag + 1);
+  for (let t = 0; t <= maxLag; t++) r[t] = re[t] / size;
+  return r;
+}
+
+/**
+ * YIN difference function d(τ) = Σ_{i<N-τ} (x[i] - x[i+τ])², from the
+ * autocorrelation and running energies: d = E(head) + E(tail) - 2·r(τ).
+ */
+export function yinDifference(buf: Float32Array, maxTau: number): Float64Array {
+  const N = buf.length;
+  const r = autocorrelation(buf, maxTau);
+  const sq = new Float64Array(N + 1); // sq[k] = Σ_{i<k} x[i]²
+  for (let i = 0; i < N; i++) sq[i + 1] = sq[i] + buf[i] * buf[i];
+  const d = new Float64Array(maxTau + 1);
+  for (let tau = 1; tau <= maxTau; tau++) {
+    d[tau] = Math.max(0, sq[N - tau] + (sq[N] - sq[tau]) - 2 * r[tau]);
+  }
+  return d;
+}
+
+/** Vertex of the parabola through (x-1, a), (x, b), (x+1, c). */
+function parabolic(x: number, a: number, b: number, c: number): { x: number; y: number } {
+  const denom = a - 2 * b + c;
+  if (denom === 0) return { x, y: b };
+  const dx = 0.5 * (a - c) / denom;
+  return { x: x + dx, y: b - 0.25 * (a - c) * dx };
+}
+
+/* ---------- detectors ---------- */
+
+/** YIN pitch detector (De Cheveigné & Kawahara) — rock solid on low notes. */
+export function yin(
+  buf: Float32Array,
+  sampleRate: number,
+  minHz = 30,
+  maxHz = 800,
+  threshold = DETECTORS.yin.threshold
+): PitchEstimate | null {
+  const N = buf.length;
+  const maxTau = Math.min(Math.floor(sampleRate / minHz), N - 1);
+  const minTau = Math.max(2, Math.floor(sampleRate / maxHz));
+  if (maxTau <= minTau) return null;
+
+  const d = yinDifference(buf, maxTau);
+
+  // cumulative mean normalized difference CMND
+  const cmnd = new Float64Array(maxTau + 1);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    running += d[tau];
+    cmnd[tau] = running > 0 ? d[tau] * tau / running : 1;
+  }
+
+  // absolute threshold
+  let tau = -1;
+  for (let t = minTau; t <= maxTau; t++) {
+    if (cmnd[t] < threshold) {
+      // local minimum around t
+      while (t + 1 <= maxTau && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau === -1) return null;
+
+  // parabolic interpolation around tau
+  const x0 = tau <= 1 ? tau : tau - 1;
+  const x2 = tau + 1 > maxTau ? tau : tau + 1;
+  const y0 = cmnd[x0], y1 = cmnd[tau], y2 = cmnd[x2];
+  const denom = (y0 - 2 * y1 + y2);
+  const betterTau = denom !== 0 ? tau + 0.5 * (y0 - y2) / denom : tau;
+
+  const hz = sampleRate / betterTau;
+  return isFinite(hz) ? { hz, clarity: Math.max(0, Math.min(1, 1 - y1)) } : null;
+}
+
+/** Classic autocorrelation: the strongest lag in range (kept in case you need it elsewhere). */
+export function acf(buf: Float32Array, sampleRate: number, minHz = 70, maxHz = 1200): PitchEstimate | null {
+  const N = buf.length;
+  // remove DC
+  let mean = 0;
+  for (let i = 0; i < N; i++) mean += buf[i];
+  mean /= N;
+  const x = buf.map((v) => v - mean);
+
+  const minLag = Math.max(1, Math.floor(sampleRate / maxHz));
+  const maxLag = Math.min(Math.floor(sampleRate / minHz), N - 2);
+  if (maxLag <= minLag) return null;
+  const r = autocorrelation(x, maxLag + 1);
+
+  let bestLag = -1;
+  let bestCorr = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (r[lag] > bestCorr) { bestCorr = r[lag]; bestLag = lag; }
+  }
+  if (bestLag <= 0) return null;
+
+  const { x: refined } = parabolic(bestLag, r[bestLag - 1], r[bestLag], r[bestLag + 1]);
+  const hz = sampleRate / refined;
+  return isFinite(hz) && r[0] > 0 ? { hz, clarity: Math.max(0, Math.min(1, bestCorr / r[0])) } : null;
+}
+
+/** Below this NSDF peak a frame is treated as unpitched. */
+const MPM_MIN_CLARITY = 0.5;
+
+/**
+ * McLeod Pitch Method (McLeod & Wyvill): normalized square difference
+ * n(τ) = 2·r(τ) / m(τ). Takes the first "key maximum" (highest point between
+ * positive zero crossings) reaching k × the highest one. Copes better than
+ * YIN with high, nearly sinusoidal sounds (whistles, flutes).
+ */
+export function mpm(
+  buf: Float32Array,
+  sampleRate: number,
+  minHz = 30,
+  maxHz = 800,
+  k = DETECTORS.mpm.threshold
+): PitchEstimate | null {
+  const N = buf.length;
+  const maxTau = Math.min(Math.floor(sampleRate / minHz), N - 2);
+  const minTau = Math.max(1, Math.floor(sampleRate / maxHz));
+  if (maxTau <= minTau) return null;
+
+  // remove DC: an offset keeps the NSDF above zero, leaving no lobes to pick
+  let mean = 0;
+  for (let i = 0; i < N; i++) mean += buf[i];
+  mean /= N;
+  const x = buf.map((v) => v - mean);
+
+  const r = autocorrelation(x, maxTau + 1);
+  const sq = new Float64Array(N + 1);
+  for (let i = 0; i < N; i++) sq[i + 1] = sq[i] + x[i] * x[i];
+  const nsdf = new Float64Array(maxTau + 2);
+  for (let tau = 0; tau <= maxTau + 1; tau++) {
+    const m = sq[N - tau] + (sq[N] - sq[tau]);
+    nsdf[tau] = m > 0 ? 2 * r[tau] / m : 0;
+  }
+
+  // key maxima: the highest point of each positive lobe after the first zero crossing
+  const peaks: number[] = [];
+  let tau = 1;
+  while (tau <= maxTau && nsdf[tau] > 0) tau++; // leave the lobe around τ = 0
+  let best = -1;
+  for (; tau <= maxTau; tau++) {
+    if (nsdf[tau] > 0) {
+      if (best === -1 || nsdf[tau] > nsdf[best]) best = tau;
+    } else if (best !== -1) {
+      peaks.push(best);
+      best = -1;
+    }
+  }
+  if (best !== -1) peaks.push(best);
+
+  const inRange = peaks.filter((p) => p >= minTau);
+  if (!inRange.length) return null;
+  const highest = Math.max(...inRange.map((p) => nsdf[p]));
+  const pick = inRange.find((p) => nsdf[p] >= k * highest)!;
+
+  const { x: period, y } = parabolic(pick, nsdf[pick - 1], nsdf[pick], nsdf[pick + 1]);
+  if (y < MPM_MIN_CLARITY) return null;
+  const hz = sampleRate / period;
+  return isFinite(hz) ? { hz, clarity: Math.min(1, y) } : null;
+}
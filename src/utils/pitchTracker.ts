@@ -0,0 +1,95 @@
+// src/utils/pitchTracker.ts
+// Mic pitch tracking off the main thread:
+//   mic -> filter chain -> frame-tap worklet --(raw hop frames)--> pitch worker
+// The worker posts a TrackerFrame every hop (rateHz per second) with one
+// estimate per requested detector and no analyser smoothing in between;
+// consumers do their own smoothing.
+
+import { DEFAULT_RMS_GATE, getAudioContext, openMicInput, MicInputOptions } from "./audio";
+import type { PitchWorkerConfig, PitchWorkerMessage, TrackerFrame } from "./pitch.worker";
+import type { DetectorSpec } from "./pitchDetect";
+import tapUrl from "./frameTap.worklet.ts?worker&url";
+
+export type { TrackerFrame };
+
+export type PitchTrackerOptions = MicInputOptions & {
+  detectors: DetectorSpec[]; // run on every window; results keyed by detectorKey
+  windowSize?: number;  // analysis window in samples, default 4096
+  rateHz?: number;      // events per second (hop = sampleRate / rateHz), default 50
+  gate?: number;        // RMS below which a window is silence, default DEFAULT_RMS_GATE
+};
+
+export type PitchTracker = {
+  stream: MediaStream;
+  /** Replace the detectors run on each window (takes effect on the next hop). */
+  setDetectors: (detectors: DetectorSpec[]) => void;
+  stop: () => void;
+};
+
+const tapLoaded = new WeakMap<BaseAudioContext, Promise<void>>();
+function loadTap(ctx: BaseAudioContext): Promise<void> {
+  let p = tapLoaded.get(ctx);
+  if (!p) {
+    p = ctx.audioWorklet.addModule(tapUrl);
+    p.catch(() => tapLoaded.delete(ctx));
+    tapLoaded.set(ctx, p);
+  }
+  return p;
+}
+
+/** Open the mic and start emitting frames. Throws on permission error or missing AudioWorklet. */
+export async function startPitchTracker(
+  opts: PitchTrackerOptions,
+  onFrame: (f: TrackerFrame) => void
+): Promise<PitchTracker> {
+  const {
+    detectors,
+    windowSize = 4096,
+    rateHz = 50,
+    gate = DEFAULT_RMS_GATE,
+  } = opts;
+
+  const ctx = getAudioContext();
+  if (ctx.state === "suspended") ctx.resume().catch(() => {});
+  await loadTap(ctx);
+  const input = await openMicInput(opts);
+
+  const hop = Math.min(windowSize, Math.round(ctx.sampleRate / rateHz));
+  const tap = new AudioWorkletNode(ctx, "frame-tap", {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: "explicit",
+    processorOptions: { hop },
+  });
+
+  const worker = new Worker(new URL("./pitch.worker.ts", import.meta.url), { type: "module" });
+  const config: PitchWorkerConfig = { sampleRate: ctx.sampleRate, windowSize, gate };
+  const channel = new MessageChannel();
+  const init: PitchWorkerMessage = { type: "init", port: channel.port2, config, detectors };
+  worker.postMessage(init, [channel.port2]);
+  tap.port.postMessage({ port: channel.port1 }, [channel.port1]);
+  worker.onmessage = (e: MessageEvent<TrackerFrame>) => onFrame(e.data);
+
+  // the tap outputs silence; connecting it to the destination keeps it pulled
+  input.output.connect(tap);
+  tap.connect(ctx.destination);
+
+  let stopped = false;
+  return {
+    stream: input.stream,
+    setDetectors(next) {
+      if (stopped) return;
+      const msg: PitchWorkerMessage = { type: "detectors", detectors: next };
+      worker.postMessage(msg);
+    },
+    stop() {
+      if (stopped) return;
+      stopped = true;
+      worker.onmessage = null;
+      worker.terminate();
+      try { tap.disconnect(); } catch {}
+      input.cleanup();
+    },
+  };
+}
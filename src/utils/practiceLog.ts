@@ -0,0 +1,227 @@
+// src/utils/practiceLog.ts
+// Shared practice history: one entry per practice session, from every module.
+// Stored under a versioned envelope so exports from older builds can be merged.
+
+import React from "react";
+import { Schema, arrayOf, isRecord, load, save } from "./persist";
+
+export type PracticeEntry = {
+  id: string;
+  module: string;      // module key ("quiz", "metro", …)
+  startedAt: number;   // epoch ms
+  durationMs: number;
+  attempts?: number;   // graded answers (trainers only)
+  correct?: number;
+  detail?: string;     // e.g. "120 BPM 4/4", "ear"
+};
+
+/** Export file format. */
+export type PracticeLog = { version: 1; entries: PracticeEntry[] };
+
+export const LOG_VERSION = 1;
+const MAX_ENTRIES = 5000;
+
+const MIN_SESSION_MS = 5000;         // shorter untimed sessions are noise
+const IDLE_SPLIT_MS = 10 * 60 * 1000; // a pause this long starts a new session
+
+const CSV_COLUMNS = ["id", "module", "startedAt", "durationMs", "attempts", "correct", "detail"] as const;
+
+export function isPracticeEntry(v: unknown): v is PracticeEntry {
+  if (!v || typeof v !== "object") return false;
+  const e = v as Record<string, unknown>;
+  const optNum = (x: unknown) => x === undefined || (typeof x === "number" && Number.isFinite(x));
+  return (
+    typeof e.id === "string" && e.id !== "" &&
+    typeof e.module === "string" && e.module !== "" &&
+    typeof e.startedAt === "number" && Number.isFinite(e.startedAt) &&
+    typeof e.durationMs === "number" && e.durationMs >= 0 &&
+    optNum(e.attempts) && optNum(e.correct) &&
+    (e.detail === undefined || typeof e.detail === "string")
+  );
+}
+
+const LOG: Schema<PracticeEntry[]> = {
+  key: "practice.log.v1",
+  version: 1,
+  kind: "data",
+  fallback: [],
+  // first builds stored the export envelope itself
+  migrations: { 0: (d) => (isRecord(d) && Array.isArray(d.entries) ? d.entries : d) },
+  parse: arrayOf((e) => (isPracticeEntry(e) ? e : undefined)),
+  serialize: (entries) => entries.slice(-MAX_ENTRIES),
+};
+
+export function loadLog(): PracticeEntry[] {
+  return load(LOG);
+}
+
+function saveLog(entries: PracticeEntry[]) {
+  save(LOG, entries);
+  window.dispatchEvent(new Event("practicelog"));
+}
+
+export function clearLog() { saveLog([]); }
+
+export function appendEntry(entry: Omit<PracticeEntry, "id">) {
+  const id = `${entry.module}-${entry.startedAt}-${Math.random().toString(36).slice(2, 7)}`;
+  saveLog([...loadLog(), { id, ...entry }]);
+}
+
+/** Merge entries into the stored log (dedupe by id). Returns how many were new. */
+export function mergeEntries(incoming: PracticeEntry[]): { added: number; skipped: number } {
+  const current = loadLog();
+  const ids = new Set(current.map((e) => e.id));
+  const fresh = incoming.filter((e) => !ids.has(e.id) && (ids.add(e.id), true));
+  if (fresh.length) saveLog([...current, ...fresh].sort((a, b) => a.startedAt - b.startedAt));
+  return { added: fresh.length, skipped: incoming.length - fresh.length };
+}
+
+/* ---------- export / import ---------- */
+
+export function exportJson(entries = loadLog()): string {
+  return JSON.stringify({ app: "ToneGenius", version: LOG_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+}
+
+function csvCell(v: unknown): string {
+  if (v === undefined || v === null) return "";
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function exportCsv(entries = loadLog()): string {
+  const rows = entries.map((e) =>
+    CSV_COLUMNS.map((c) => csvCell(c === "startedAt" ? new Date(e.startedAt).toISOString() : e[c])).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+/** Minimal RFC 4180 reader (quoted cells, doubled quotes, CRLF). */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") { row.push(cell); cell = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell); rows.push(row); row = []; cell = "";
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter((r) => r.some((c) => c !== ""));
+}
+
+function entriesFromCsv(text: string): PracticeEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const col = (name: string) => header.indexOf(name);
+  const num = (s: string | undefined) => (s === undefined || s === "" ? undefined : Number(s));
+  return rows.map((r) => {
+    const at = r[col("startedAt")] ?? "";
+    const e: PracticeEntry = {
+      id: r[col("id")] ?? "",
+      module: r[col("module")] ?? "",
+      startedAt: /^\d+$/.test(at) ? Number(at) : Date.parse(at),
+      durationMs: Number(r[col("durationMs")]),
+      attempts: num(r[col("attempts")]),
+      correct: num(r[col("correct")]),
+      detail: r[col("detail")] || undefined,
+    };
+    return e;
+  }).filter(isPracticeEntry);
+}
+
+/**
+ * Parse an exported file (JSON envelope, bare JSON array or CSV) and merge it.
+ * Throws when nothing in the file looks like a practice log.
+ */
+export function importLog(text: string): { added: number; skipped: number; invalid: number } {
+  let raw: unknown[];
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) raw = parsed;
+    else {
+      const env = parsed as { version?: unknown; entries?: unknown };
+      if (typeof env.version === "number" && env.version > LOG_VERSION) {
+        throw new Error(`This file was written by a newer version (v${env.version}).`);
+      }
+      if (!Array.isArray(env.entries)) throw new Error("No practice entries found in this file.");
+      raw = env.entries;
+    }
+  } else {
+    raw = entriesFromCsv(trimmed);
+  }
+  const valid = raw.filter(isPracticeEntry);
+  if (raw.length && !valid.length) throw new Error("No valid practice entries found in this file.");
+  return { ...mergeEntries(valid), invalid: raw.length - valid.length };
+}
+
+/* ---------- session tracking ---------- */
+
+export type PracticeSession = {
+  /** Mark the session as running (timed modules: metronome, tone …). */
+  begin: (detail?: string) => void;
+  /** Record one graded answer; starts a session when needed. */
+  count: (ok: boolean, detail?: string) => void;
+  /** Close the current session and write it to the log. */
+  end: (detail?: string) => void;
+};
+
+/**
+ * Per-module session recorder. Timed modules call begin()/end() around playback;
+ * trainers just call count() — their session closes after a long pause, on unmount
+ * or when the page is closed.
+ */
+export function usePracticeSession(module: string): PracticeSession {
+  const ref = React.useRef<{ startedAt: number; lastAt: number; attempts: number; correct: number; detail?: string } | null>(null);
+
+  const session = React.useMemo<PracticeSession>(() => {
+    function end(detail?: string) {
+      const s = ref.current;
+      ref.current = null;
+      if (!s) return;
+      const durationMs = Math.max(0, (s.attempts ? s.lastAt : Date.now()) - s.startedAt);
+      if (!s.attempts && durationMs < MIN_SESSION_MS) return;
+      appendEntry({
+        module,
+        startedAt: s.startedAt,
+        durationMs,
+        ...(s.attempts ? { attempts: s.attempts, correct: s.correct } : {}),
+        ...((detail ?? s.detail) ? { detail: detail ?? s.detail } : {}),
+      });
+    }
+    function begin(detail?: string) {
+      const now = Date.now();
+      if (ref.current?.attempts && now - ref.current.lastAt > IDLE_SPLIT_MS) end();
+      if (!ref.current) ref.current = { startedAt: now, lastAt: now, attempts: 0, correct: 0 };
+      if (detail !== undefined) ref.current.detail = detail;
+    }
+    function count(ok: boolean, detail?: string) {
+      begin(detail);
+      const s = ref.current!;
+      s.attempts++;
+      if (ok) s.correct++;
+      s.lastAt = Date.now();
+    }
+    return { begin, count, end };
+  }, [module]);
+
+  React.useEffect(() => {
+    const onHide = () => session.end();
+    window.addEventListener("pagehide", onHide);
+    return () => {
+      window.removeEventListener("pagehide", onHide);
+      session.end();
+    };
+  }, [session]);
+
+  return session;
+}
@@ -0,0 +1,70 @@
+// src/utils/quizStats.ts
+// Per-attempt log for the Interval Quiz + aggregation helpers for the breakdown view.
+
+import { isRecord } from "./persist";
+
+export type InputMethod = "typed" | "mic" | "choice"; // choice = clicked answer button (ear mode)
+export type QuizMode = "theory" | "ear";
+
+export type Attempt = {
+  at: number;            // epoch ms
+  intervalId: string;
+  root: string;
+  dir: "up" | "down";
+  answer: string;        // what was given ("" if unparseable)
+  expected: string;      // expected pitch name (theory) or interval id (ear)
+  ok: boolean;
+  ms: number;            // latency since question shown
+  input: InputMethod;
+  mode?: QuizMode;       // missing on attempts logged before ear mode existed
+};
+
+/** Keep the log bounded so localStorage stays small. */
+export const MAX_ATTEMPTS = 3000;
+
+export type Bucket = {
+  key: string;
+  tries: number;
+  correct: number;
+  accuracy: number;         // 0..100
+  medianMs: number | null;  // over correct answers
+};
+
+export function median(a: number[]): number | null {
+  if (!a.length) return null;
+  const s = [...a].sort((x, y) => x - y);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+/** Group attempts by a key and summarise each group. Keys keep first-seen order unless `order` is given. */
+export function bucketize(
+  attempts: Attempt[],
+  keyOf: (a: Attempt) => string,
+  order?: string[]
+): Bucket[] {
+  const groups = new Map<string, Attempt[]>();
+  order?.forEach((k) => groups.set(k, []));
+  for (const a of attempts) {
+    const k = keyOf(a);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(a);
+  }
+  return Array.from(groups, ([key, list]) => {
+    const correct = list.filter((a) => a.ok).length;
+    return {
+      key,
+      tries: list.length,
+      correct,
+      accuracy: list.length ? Math.round((correct / list.length) * 100) : 0,
+      medianMs: median(list.filter((a) => a.ok).map((a) => a.ms)),
+    };
+  });
+}
+
+export function isAttempt(v: unknown): v is Attempt {
+  return isRecord(v)
+    && typeof v.intervalId === "string" && typeof v.root === "string"
+    && (v.dir === "up" || v.dir === "down")
+    && typeof v.ok === "boolean" && typeof v.ms === "number";
+}
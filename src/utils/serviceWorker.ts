@@ -0,0 +1,73 @@
+// src/utils/serviceWorker.ts
+// Offline support: registers the service worker (production builds only) and
+// reports when the app is cached or a newer build is waiting to take over.
+
+import React from "react";
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000; // long-lived tabs look for new builds hourly
+
+export type ServiceWorkerState = {
+  /** First install finished: everything is cached for offline use. */
+  offlineReady: boolean;
+  /** A newer build is installed and waiting. */
+  updateReady: boolean;
+  /** Activate the waiting build; the page reloads once it has taken over. */
+  applyUpdate: () => void;
+  dismiss: () => void;
+};
+
+export function useServiceWorker(): ServiceWorkerState {
+  const [waiting, setWaiting] = React.useState<ServiceWorker | null>(null);
+  const [offlineReady, setOfflineReady] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+    const sw = navigator.serviceWorker;
+    const hadController = !!sw.controller; // false on the very first visit
+    let registration: ServiceWorkerRegistration | null = null;
+    let timer = 0;
+    let reloading = false;
+
+    function track(worker: ServiceWorker) {
+      worker.addEventListener("statechange", () => {
+        if (worker.state !== "installed") return;
+        if (sw.controller) setWaiting(worker);
+        else setOfflineReady(true);
+      });
+    }
+
+    sw.register(`${import.meta.env.BASE_URL}sw.js`)
+      .then((reg) => {
+        registration = reg;
+        if (reg.waiting && sw.controller) setWaiting(reg.waiting);
+        if (reg.installing) track(reg.installing);
+        reg.addEventListener("updatefound", () => { if (reg.installing) track(reg.installing); });
+        timer = window.setInterval(() => { reg.update().catch(() => {}); }, UPDATE_CHECK_MS);
+      })
+      .catch(() => {}); // no offline copy (e.g. private browsing); the app runs online as before
+
+    // the new build took over after applyUpdate(): reload into it
+    const onControllerChange = () => {
+      if (!hadController || reloading) return;
+      reloading = true;
+      window.location.reload();
+    };
+    const onVisible = () => {
+      if (document.visibilityState === "visible") registration?.update().catch(() => {});
+    };
+    sw.addEventListener("controllerchange", onControllerChange);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      window.clearInterval(timer);
+      sw.removeEventListener("controllerchange", onControllerChange);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, []);
+
+  return {
+    offlineReady,
+    updateReady: waiting !== null,
+    applyUpdate: () => waiting?.postMessage({ type: "SKIP_WAITING" }),
+    dismiss: () => { setWaiting(null); setOfflineReady(false); },
+  };
+}
@@ -0,0 +1,96 @@
+// src/utils/share.ts
+// Practice setups in a link: the tile stack plus chosen settings of each tile,
+// encoded into the URL fragment (#setup=…) so no server is involved.
+
+import { Schema, isRecord, load, save, scopedSchema } from "./persist";
+
+/** Settings a module puts into share links: short field name -> schema. */
+export type ShareFields = Record<string, Schema<unknown>>;
+
+/** Module lookup by key (see modules/index); unknown keys give undefined. */
+type ShareModules = (key: string) => { settings?: ShareFields } | undefined;
+type SharedTile = { id: string; key: string };
+
+const PARAM = "setup";
+const SHARE_VERSION = 1;
+
+/** Wire format: module keys in tile order, settings by tile index. */
+type SharedSetup = { v: number; t: string[]; s: Record<string, unknown>[] };
+
+function toBase64Url(text: string): string {
+  let bin = "";
+  new TextEncoder().encode(text).forEach((b) => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): string {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+/** Link to this page that recreates `tiles` with their current settings. */
+export function buildShareUrl(tiles: SharedTile[], modules: ShareModules): string {
+  const setup: SharedSetup = {
+    v: SHARE_VERSION,
+    t: tiles.map((t) => t.key),
+    s: tiles.map((t) => {
+      const values: Record<string, unknown> = {};
+      Object.entries(modules(t.key)?.settings ?? {}).forEach(([name, schema]) => {
+        const value = load(scopedSchema(schema, t.id));
+        values[name] = schema.serialize ? schema.serialize(value) : value;
+      });
+      return values;
+    }),
+  };
+  const url = new URL(window.location.href);
+  url.hash = `${PARAM}=${toBase64Url(JSON.stringify(setup))}`;
+  return url.toString();
+}
+
+/** What opening a setup link gave: the new tiles, or why the link was ignored. */
+export type SharedSetupResult = { tiles: SharedTile[] } | { error: string };
+
+/**
+ * Apply the setup in the URL fragment, if there is one, and remove it from the
+ * address bar. Settings go through each schema's parser and are stored under
+ * fresh tile ids; unknown modules and fields are ignored.
+ * Returns null when the URL holds no setup link.
+ */
+export function takeSharedSetup(modules: ShareModules, makeId: (key: string) => string): SharedSetupResult | null {
+  const match = window.location.hash.match(new RegExp(`^#${PARAM}=([\\w-]+)$`));
+  if (!match) return null;
+  history.replaceState(null, "", window.location.pathname + window.location.search);
+
+  let setup: unknown;
+  try {
+    setup = JSON.parse(fromBase64Url(match[1]));
+  } catch {
+    setup = null;
+  }
+  if (!isRecord(setup) || !Array.isArray(setup.t) || typeof setup.v !== "number") {
+    return { error: "This setup link is damaged or incomplete." };
+  }
+  if (setup.v > SHARE_VERSION) {
+    return { error: "This setup link was made by a newer version of ToneGenius. Reload to update, then open it again." };
+  }
+
+  try {
+    const settings = Array.isArray(setup.s) ? setup.s : [];
+
+    const tiles: SharedTile[] = [];
+    setup.t.forEach((key: unknown, i) => {
+      const module = typeof key === "string" ? modules(key) : undefined;
+      if (!module) return;
+      const id = makeId(key as string);
+      const values = isRecord(settings[i]) ? settings[i] : {};
+      Object.entries(module.settings ?? {}).forEach(([name, schema]) => {
+        const value = name in values ? schema.parse(values[name]) : undefined;
+        if (value !== undefined) save(scopedSchema(schema, id), value);
+      });
+      tiles.push({ id, key: key as string });
+    });
+    return tiles.length ? { tiles } : { error: "This setup link has no tiles this version of ToneGenius knows." };
+  } catch {
+    return { error: "This setup link could not be applied." };
+  }
+}
@@ -0,0 +1,239 @@
+// src/utils/shortcuts.ts
+// Central keyboard shortcuts.
+// - Commands are declared once at module level (defineCommand) with default keys;
+//   that catalog drives the Help dialog and the shortcut editor.
+// - Mounted components attach handlers (useCommand). Handlers inside a tile know
+//   their tile id, so one key press runs one handler: the focused tile's, else
+//   the tile used last, else the first one.
+// - Users can rebind any command; overrides are stored in settings.
+// Key combos are strings like "n", "shift+n", "mod+k" (Ctrl, or ⌘ on macOS), "space".
+
+import React from "react";
+import { Schema, isRecord, load, save, TileScope } from "./persist";
+
+export type CommandDef = {
+  id: string;          // "<module>.<action>"
+  group: string;       // heading in Help / palette ("Metronome")
+  title: string;
+  keys: string[];      // default bindings (may be empty)
+  /** Also runs while a dialog is open (e.g. the palette itself). */
+  inDialogs?: boolean;
+};
+
+type Handler = { def: CommandDef; tileId: string | null; run: () => void };
+
+/** A runnable command as listed in the palette. */
+export type ActiveCommand = Handler;
+
+/* ---------- catalog & bindings ---------- */
+
+const catalog = new Map<string, CommandDef>();
+
+export function defineCommand(def: CommandDef): CommandDef {
+  catalog.set(def.id, def);
+  return def;
+}
+
+/** Every declared command, in declaration order. */
+export function listCommands(): CommandDef[] {
+  return Array.from(catalog.values());
+}
+
+const BINDINGS: Schema<Record<string, string[]>> = {
+  key: "shortcuts.bindings.v1",
+  version: 1,
+  fallback: {},
+  parse: (d) => {
+    if (!isRecord(d)) return undefined;
+    const out: Record<string, string[]> = {};
+    Object.entries(d).forEach(([id, keys]) => {
+      if (Array.isArray(keys)) out[id] = keys.filter((k): k is string => typeof k === "string" && k !== "");
+    });
+    return out;
+  },
+};
+
+let overrides = load(BINDINGS);
+let handlers: Handler[] = [];
+const listeners = new Set<() => void>();
+let version = 0; // bumped on every change (useSyncExternalStore snapshot)
+
+function notify() {
+  version++;
+  listeners.forEach((fn) => fn());
+}
+
+function subscribe(fn: () => void) {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+}
+
+export function keysFor(def: CommandDef): string[] {
+  return overrides[def.id] ?? def.keys;
+}
+
+export function isCustomized(def: CommandDef): boolean {
+  return def.id in overrides;
+}
+
+/** Replace a command's keys; null restores the default. */
+export function setKeys(id: string, keys: string[] | null) {
+  const next = { ...overrides };
+  if (keys === null) delete next[id];
+  else next[id] = keys;
+  overrides = next;
+  save(BINDINGS, overrides);
+  notify();
+}
+
+export function resetAllKeys() {
+  overrides = {};
+  save(BINDINGS, overrides);
+  notify();
+}
+
+/** Re-render on binding or handler changes; returns a change counter. */
+export function useShortcutsVersion(): number {
+  return React.useSyncExternalStore(subscribe, () => version);
+}
+
+/* ---------- key combos ---------- */
+
+const IS_MAC = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+const MODIFIER_KEYS = new Set(["Control", "Shift", "Alt", "Meta", "AltGraph", "CapsLock"]);
+
+/** Normalised combo for a key event, or null for a bare modifier. */
+export function comboFromEvent(e: KeyboardEvent | React.KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = e.key === " " ? "space" : e.key.toLowerCase();
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push("mod");
+  if (e.altKey) parts.push("alt");
+  // shifted symbols ("?", "!") already say so; shift matters for letters and named keys
+  if (e.shiftKey && (key.length > 1 || /[a-z0-9]/.test(key))) parts.push("shift");
+  parts.push(key);
+  return parts.join("+");
+}
+
+/** "mod+k" -> "Ctrl+K" / "⌘K". */
+export function formatCombo(combo: string): string {
+  const names: Record<string, string> = {
+    mod: IS_MAC ? "⌘" : "Ctrl", alt: IS_MAC ? "⌥" : "Alt", shift: IS_MAC ? "⇧" : "Shift",
+    space: "Space", escape: "Esc", enter: "Enter", arrowup: "↑", arrowdown: "↓", arrowleft: "←", arrowright: "→",
+  };
+  const parts = combo.split("+").map((p) => names[p] ?? (p.length === 1 ? p.toUpperCase() : p[0].toUpperCase() + p.slice(1)));
+  return parts.join(IS_MAC ? "" : "+");
+}
+
+/** Current first binding of a command for button hints ("Next (N)"); "" when unbound. */
+export function useKeyHint(def: CommandDef): string {
+  useShortcutsVersion();
+  const first = keysFor(def)[0];
+  return first ? formatCombo(first) : "";
+}
+
+/* ---------- handlers ---------- */
+
+/**
+ * Attach a handler to a command while the component is mounted. Inside a tile
+ * the handler is tied to that tile for focus-aware routing.
+ */
+export function useCommand(def: CommandDef, run: () => void) {
+  const tileId = React.useContext(TileScope);
+  const runRef = React.useRef(run);
+  React.useEffect(() => { runRef.current = run; });
+
+  React.useEffect(() => {
+    const h: Handler = { def, tileId, run: () => runRef.current() };
+    handlers = [...handlers, h];
+    notify();
+    return () => {
+      handlers = handlers.filter((x) => x !== h);
+      notify();
+    };
+  }, [def, tileId]);
+}
+
+/** Handlers currently mounted (palette). */
+export function activeCommands(): ActiveCommand[] {
+  return handlers;
+}
+
+/* ---------- dispatch ---------- */
+
+const TEXT_FIELDS = "input:not([type=checkbox]):not([type=radio]):not([type=range]), textarea, select, [contenteditable='true']";
+// what a note-name field needs typed (letters, accidentals, octave digits); never a shortcut there
+const NOTE_ENTRY = /^(shift\+)?[a-g0-9x#]$/;
+
+let lastTileId: string | null = null;
+
+function tileOf(el: Element | null): string | null {
+  return el?.closest<HTMLElement>("[data-tile-id]")?.dataset.tileId ?? null;
+}
+
+/** Pick one handler: focused tile, then last used tile, then app-level, then first. */
+function route(candidates: Handler[]): Handler | undefined {
+  const focused = tileOf(document.activeElement);
+  return (
+    candidates.find((h) => h.tileId !== null && h.tileId === focused) ??
+    candidates.find((h) => h.tileId !== null && h.tileId === lastTileId) ??
+    candidates.find((h) => h.tileId === null) ??
+    candidates[0]
+  );
+}
+
+/** Tile the keyboard is working on: the focused one, else the one used last. */
+export function currentTileId(): string | null {
+  return tileOf(document.activeElement) ?? lastTileId;
+}
+
+export function runCommand(h: ActiveCommand) {
+  if (h.tileId) lastTileId = h.tileId;
+  h.run();
+}
+
+/**
+ * The single window key listener; mount once (App). Keys typed into fields are
+ * left alone unless they use Ctrl/⌘. A field can opt in to bare keys for some
+ * of its own tile's commands: `data-shortcuts="quiz.next quiz.replay"`; keys
+ * used for note entry still go to the field.
+ */
+export function useShortcutDispatcher() {
+  React.useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.defaultPrevented || e.isComposing || e.repeat) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+
+      const target = e.target instanceof Element ? e.target : null;
+      // Space/Enter on a focused button is a click
+      if ((combo === "space" || combo === "enter") && target?.closest("button")) return;
+
+      const typing = !!target?.closest(TEXT_FIELDS) && !combo.startsWith("mod+");
+      if (typing && NOTE_ENTRY.test(combo)) return;
+
+      const inDialog = !!document.querySelector("[aria-modal='true']");
+      const candidates = handlers.filter((h) => keysFor(h.def).includes(combo) && (!inDialog || h.def.inDialogs));
+      // typing: only the commands the field names, for the field's own tile (no fallback elsewhere)
+      const allowed = typing ? target!.closest("[data-shortcuts]")?.getAttribute("data-shortcuts")?.split(/\s+/) ?? [] : [];
+      const h = typing
+        ? candidates.find((c) => allowed.includes(c.def.id) && c.tileId === tileOf(target))
+        : route(candidates);
+      if (!h) return;
+      e.preventDefault();
+      runCommand(h);
+    }
+    function onUse(e: Event) {
+      const id = tileOf(e.target instanceof Element ? e.target : null);
+      if (id) lastTileId = id;
+    }
+    window.addEventListener("keydown", onKey);
+    document.addEventListener("pointerdown", onUse, true);
+    document.addEventListener("focusin", onUse, true);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      document.removeEventListener("pointerdown", onUse, true);
+      document.removeEventListener("focusin", onUse, true);
+    };
+  }, []);
+}
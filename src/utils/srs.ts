@@ -0,0 +1,129 @@
+// src/utils/srs.ts
+// Lightweight spaced-repetition scheduler (SM-2 flavoured).
+// Each item keeps its recall history + response time; picks are weighted
+// toward items that are overdue, often missed, or answered slowly.
+
+import { Schema, isRecord, load, save } from "./persist";
+
+export type SrsItem = {
+  seen: number;        // graded attempts
+  lapses: number;      // misses
+  reps: number;        // consecutive correct recalls
+  ease: number;        // growth factor for the review interval
+  intervalMs: number;  // current review interval
+  dueAt: number;       // epoch ms when the item becomes due again
+  avgMs: number;       // moving average of correct response times
+  lastAt: number;      // epoch ms of last grade
+};
+
+export type SrsState = Record<string, SrsItem>;
+
+const MIN_EASE = 1.3;
+const MAX_EASE = 2.8;
+const START_EASE = 2.2;
+
+const FIRST_INTERVAL_MS = 10 * 60 * 1000;   // 10 min after first correct
+const LAPSE_INTERVAL_MS = 60 * 1000;        // 1 min after a miss
+const SLOW_MS = 4000;                       // answers slower than this grow less
+const LATENCY_ALPHA = 0.3;                  // EMA weight for new response times
+
+const ITEM_FIELDS: (keyof SrsItem)[] = ["seen", "lapses", "reps", "ease", "intervalMs", "dueAt", "avgMs", "lastAt"];
+
+function isSrsItem(v: unknown): v is SrsItem {
+  return isRecord(v) && ITEM_FIELDS.every((f) => typeof v[f] === "number" && Number.isFinite(v[f]));
+}
+
+function srsSchema(key: string): Schema<SrsState> {
+  return {
+    key,
+    version: 1,
+    kind: "data",
+    fallback: {},
+    // drop damaged items rather than the whole schedule
+    parse: (d) => (isRecord(d) ? Object.fromEntries(Object.entries(d).filter((e): e is [string, SrsItem] => isSrsItem(e[1]))) : undefined),
+  };
+}
+
+export function loadSrs(key: string): SrsState {
+  return load(srsSchema(key));
+}
+
+export function saveSrs(key: string, state: SrsState) {
+  save(srsSchema(key), state);
+}
+
+/** Grade one recall. Returns a new state (input is not mutated). */
+export function gradeItem(
+  state: SrsState,
+  id: string,
+  ok: boolean,
+  elapsedMs: number,
+  now = Date.now()
+): SrsState {
+  const prev: SrsItem = state[id] ?? {
+    seen: 0, lapses: 0, reps: 0, ease: START_EASE,
+    intervalMs: 0, dueAt: now, avgMs: 0, lastAt: 0,
+  };
+
+  let { ease, intervalMs, reps, lapses, avgMs } = prev;
+
+  if (ok) {
+    avgMs = avgMs === 0 ? elapsedMs : avgMs + LATENCY_ALPHA * (elapsedMs - avgMs);
+    // slow-but-correct answers keep the interval short and nudge ease down
+    const slow = elapsedMs > SLOW_MS;
+    ease = clamp(ease + (slow ? -0.05 : 0.1), MIN_EASE, MAX_EASE);
+    intervalMs = reps === 0 || intervalMs === 0
+      ? FIRST_INTERVAL_MS
+      : intervalMs * (slow ? 1.2 : ease);
+    reps += 1;
+  } else {
+    ease = clamp(ease - 0.2, MIN_EASE, MAX_EASE);
+    intervalMs = LAPSE_INTERVAL_MS;
+    reps = 0;
+    lapses += 1;
+  }
+
+  const next: SrsItem = {
+    seen: prev.seen + 1,
+    lapses, reps, ease, intervalMs, avgMs,
+    dueAt: now + intervalMs,
+    lastAt: now,
+  };
+  return { ...state, [id]: next };
+}
+
+/** Relative pick weight for an item (unseen items count as due). */
+export function itemWeight(item: SrsItem | undefined, now = Date.now()): number {
+  if (!item) return 1.5;
+
+  // due-ness: 1 when due, grows with overdue ratio, small when not yet due
+  const span = Math.max(item.intervalMs, LAPSE_INTERVAL_MS);
+  const overdue = (now - item.dueAt) / span;
+  const due = overdue >= 0 ? 1 + Math.min(3, overdue) : Math.max(0.08, 1 + overdue);
+
+  // weakness: miss rate + slowness
+  const missRate = item.seen ? item.lapses / item.seen : 0;
+  const slowness = item.avgMs > 0 ? clamp(item.avgMs / SLOW_MS, 0.5, 2) : 1;
+
+  return due * (1 + 2 * missRate) * slowness;
+}
+
+/** Weighted random choice. Falls back to uniform when all weights are 0. */
+export function pickWeighted<T>(items: T[], weightOf: (t: T) => number): T {
+  const weights = items.map((t) => Math.max(0, weightOf(t)));
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return items[Math.floor(Math.random() * items.length)];
+  let r = Math.random() * total;
+  for (let i = 0; i < items.length; i++) {
+    r -= weights[i];
+    if (r < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+/** Count items that are due (or never seen) among the given ids. */
+export function countDue(state: SrsState, ids: string[], now = Date.now()): number {
+  return ids.reduce((n, id) => n + (!state[id] || state[id].dueAt <= now ? 1 : 0), 0);
+}
+
+function clamp(x: number, lo: number, hi: number) { return Math.min(hi, Math.max(lo, x)); }
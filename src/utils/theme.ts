@@ -1,16 +1,17 @@
+import { Schema, load, oneOf, save } from "./persist";
+
 export type Theme = "light" | "dark";
 
-const KEY = "app.theme";
+const THEME: Schema<Theme> = { key: "app.theme", version: 1, fallback: "dark", parse: oneOf<Theme>(["light", "dark"]) };
 
 export function getSavedTheme(): Theme {
-  const t = (localStorage.getItem(KEY) as Theme | null) || "dark";
-  return t === "light" ? "light" : "dark";
+  return load(THEME);
 }
 
 export function applyTheme(t: Theme) {
   const root = document.documentElement;
   root.setAttribute("data-theme", t);
-  localStorage.setItem(KEY, t);
+  save(THEME, t);
 }
 
 export function toggleTheme(): Theme {
@@ -0,0 +1,118 @@
+// src/utils/transport.ts
+// Shared transport: one clock for the rhythm tiles (metronome, clave, polyrhythm).
+// It holds the tempo, whether it is playing, and the bar anchor: the AudioContext
+// time of a downbeat "1". Tiles that follow the transport play while it plays,
+// take its tempo and start on the next "1" of their own bar counted from the
+// anchor, so tiles started together share their downbeat. Tiles that ignore it
+// keep their own tempo and start/stop button.
+
+import React from "react";
+import { getAudioContext } from "./audio";
+import { Schema, TileScope, boolean, intIn, load, save } from "./persist";
+
+export type TransportState = {
+  playing: boolean;
+  bpm: number;           // quarter notes per minute
+  anchor: number | null; // AudioContext time of a downbeat (null when stopped)
+  followers: number;     // rhythm tiles on the page that follow the transport
+};
+
+export const TRANSPORT_MIN_BPM = 20;
+export const TRANSPORT_MAX_BPM = 300;
+const START_DELAY = 0.08; // seconds between pressing play and the first "1"
+
+const BPM: Schema<number> = {
+  key: "transport.bpm", version: 1, fallback: 100, parse: intIn(TRANSPORT_MIN_BPM, TRANSPORT_MAX_BPM),
+};
+
+/** Per-tile "follow the transport" switch for rhythm modules (off by default: a tile keeps its own tempo). */
+export function followSchema(prefix: string): Schema<boolean> {
+  return { key: `${prefix}.followTransport`, version: 1, perTile: true, fallback: false, parse: boolean };
+}
+
+let state: TransportState = { playing: false, bpm: load(BPM), anchor: null, followers: 0 };
+const listeners = new Set<() => void>();
+
+function update(next: Partial<TransportState>) {
+  state = { ...state, ...next };
+  listeners.forEach((fn) => fn());
+}
+
+function freshAnchor(): number {
+  const ctx = getAudioContext();
+  if (ctx.state === "suspended") ctx.resume().catch(() => {});
+  return ctx.currentTime + START_DELAY;
+}
+
+export const transport = {
+  get: (): TransportState => state,
+  subscribe(fn: () => void) {
+    listeners.add(fn);
+    return () => { listeners.delete(fn); };
+  },
+  start() {
+    if (!state.playing) update({ playing: true, anchor: freshAnchor() });
+  },
+  stop() {
+    if (state.playing) update({ playing: false, anchor: null });
+  },
+  toggle() {
+    state.playing ? transport.stop() : transport.start();
+  },
+  /** Change tempo; while playing, followers restart together on a new "1". */
+  setBpm(bpm: number) {
+    const next = Math.round(Math.min(TRANSPORT_MAX_BPM, Math.max(TRANSPORT_MIN_BPM, bpm)));
+    if (next === state.bpm) return;
+    save(BPM, next);
+    update({ bpm: next, anchor: state.playing ? freshAnchor() : null });
+  },
+};
+
+/* ---------- rhythm tiles ---------- */
+
+// mounted rhythm tiles by tile id: whether each follows, and its own start/stop
+const rhythmTiles = new Map<string, { following: boolean; toggle: () => void }>();
+
+function countFollowers() {
+  const followers = Array.from(rhythmTiles.values()).filter((t) => t.following).length;
+  if (followers === state.followers) return;
+  // nobody left to hear it: don't keep the transport running unseen
+  update(followers ? { followers } : { followers, playing: false, anchor: null });
+}
+
+/** Register the current rhythm tile while mounted; `toggle` is its own start/stop button. */
+export function useRhythmTile(following: boolean, toggle: () => void) {
+  const tileId = React.useContext(TileScope);
+  const toggleRef = React.useRef(toggle);
+  React.useEffect(() => { toggleRef.current = toggle; });
+
+  React.useEffect(() => {
+    if (!tileId) return;
+    rhythmTiles.set(tileId, { following, toggle: () => toggleRef.current() });
+    countFollowers();
+    return () => {
+      rhythmTiles.delete(tileId);
+      countFollowers();
+    };
+  }, [tileId, following]);
+}
+
+/**
+ * Space: start/stop the transport when any tile follows it; otherwise the
+ * given rhythm tile on its own (the first one when it isn't a rhythm tile).
+ */
+export function toggleRhythm(tileId: string | null) {
+  if (state.followers > 0) { transport.toggle(); return; }
+  const tile = (tileId && rhythmTiles.get(tileId)) || rhythmTiles.values().next().value;
+  tile?.toggle();
+}
+
+/** First downbeat of a bar of `barLen` seconds, counted from `anchor`, at or after `time`. */
+export function nextDownbeat(anchor: number, barLen: number, time: number): number {
+  if (barLen <= 0 || time <= anchor) return anchor;
+  return anchor + Math.ceil((time - anchor) / barLen) * barLen;
+}
+
+export function useTransport(): TransportState {
+  return React.useSyncExternalStore(transport.subscribe, transport.get);
+}
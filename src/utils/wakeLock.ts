@@ -0,0 +1,46 @@
+// src/utils/wakeLock.ts
+// Screen wake lock for stage view: keeps the display on while a tile is shown
+// on a music stand. Browsers drop the lock when the tab is hidden, so it is
+// requested again when the page becomes visible.
+
+import React from "react";
+
+export type WakeLockStatus = "pending" | "active" | "released" | "unsupported";
+
+export function useWakeLock(active: boolean): WakeLockStatus {
+  const [status, setStatus] = React.useState<WakeLockStatus>("pending");
+
+  React.useEffect(() => {
+    if (!active) return;
+    if (!("wakeLock" in navigator)) { setStatus("unsupported"); return; }
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    async function acquire() {
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (cancelled) { lock.release().catch(() => {}); return; }
+        sentinel = lock;
+        setStatus("active");
+        lock.addEventListener("release", () => { if (!cancelled) setStatus("released"); });
+      } catch {
+        // denied (battery saver, not visible yet): try again on the next visibility change
+        if (!cancelled) setStatus("released");
+      }
+    }
+    function onVisibility() {
+      if (document.visibilityState === "visible" && (!sentinel || sentinel.released)) acquire();
+    }
+
+    acquire();
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", onVisibility);
+      sentinel?.release().catch(() => {});
+      setStatus("pending");
+    };
+  }, [active]);
+
+  return status;
+}
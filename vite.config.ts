@@ -1,7 +1,48 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join, relative } from 'node:path'
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((e) =>
+    e.isDirectory() ? listFiles(join(dir, e.name)) : [join(dir, e.name)]
+  )
+}
+
+// Writes dist/sw.js from src/sw.js with the build's files as the precache list.
+function serviceWorker(): Plugin {
+  let root = ''
+  let publicDir = ''
+  return {
+    name: 'tonegenius-sw',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      root = config.root
+      publicDir = config.publicDir
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256')
+      const built = Object.values(bundle)
+        .filter((f) => !f.fileName.endsWith('.map'))
+        .map((f) => {
+          hash.update(f.fileName).update(f.type === 'chunk' ? f.code : f.source)
+          return f.fileName
+        })
+      const copied = publicDir ? listFiles(publicDir).map((f) => relative(publicDir, f).split('\\').join('/')) : []
+      copied.forEach((f) => hash.update(readFileSync(join(publicDir, f))))
+
+      const precache = Array.from(new Set([...built, ...copied])).sort()
+      const source = readFileSync(join(root, 'src/sw.js'), 'utf8')
+        .replace('__PRECACHE__;', `${JSON.stringify(precache)};`)
+        .replace('${__BUILD_ID__}', hash.digest('hex').slice(0, 12))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })